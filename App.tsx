@@ -1,13 +1,21 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { AppConfig, ProcessingResult, Paper, CycleStats, AIService, QueueItem, FeedItem, CycleHeaderData, NetworkLog, ZoteroResult, CycleCompleteData, HarvestHeaderData } from './types';
-import { DEFAULT_SEMANTIC_SENTENCES, DEFAULT_GRADING_TOPICS } from './constants';
-import { GeminiService } from './services/geminiService';
-import { OllamaService } from './services/ollamaService';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { AppConfig, ProcessingResult, Paper, CycleStats, AIService, QueueItem, FeedItem, CycleHeaderData, NetworkLog, ZoteroResult, CycleCompleteData, HarvestHeaderData, PaperSource, AbstractSectionCategory, OpenAccessLocation, FullTextExtract, ScrapeOutcome, EmbeddingVector } from './types';
+import { DEFAULT_SEMANTIC_SENTENCES, DEFAULT_GRADING_TOPICS, DEFAULT_CORS_PROXY, DEFAULT_FULL_TEXT_SECTIONS, DEFAULT_SCRAPE_CACHE_TTL_DAYS } from './constants';
+import { createPipelineService, providerModel, embeddingModelKey } from './services/aiProviderService';
 import { ZoteroService } from './services/zoteroService';
+import { ncbiClient } from './services/ncbiService';
 import { ScraperService } from './services/scraperService';
-import { cosineSimilarity } from './services/vectorService';
-import { getPubMedIds, fetchPubMedPapers, searchSemanticScholar } from './services/paperService';
+import { compareEmbeddings, toEmbeddingVector, EmbeddingMismatchError } from './services/vectorService';
+import { getSource, listSources, DEFAULT_SOURCE_ID } from './services/sourceRegistry';
+import { fetchEuropePMCFullText, configureSemanticScholar, SourceRateLimitError, createPubMedSimilarSource } from './services/paperService';
+import { mergePapers, filterUnseen, isSamePaper, mergeProvenance } from './services/mergeService';
+import { collectCitationNeighbours } from './services/snowballService';
+import { matchesFilters, describeFilters, describeUnappliedFilters } from './services/filterService';
+import { getWatchMark, saveWatchMark, watchRunStart, toDateString } from './services/watchService';
+import { configureOpenAccess, resolveOpenAccess } from './services/oaService';
+import { splitFullTextSections, buildFullTextContext } from './services/fullTextService';
+import { recoverAbstract } from './services/abstractService';
 import { generateRIS, downloadRIS } from './services/exportService';
 import StatsPanel from './components/StatsPanel';
 import SettingsPanel from './components/SettingsPanel';
@@ -23,7 +31,22 @@ import ExportReviewModal from './components/ExportReviewModal';
 import { Settings2, CloudUpload, XCircle, Activity, Database, ToggleLeft, ToggleRight, Search, Globe, Library, FileText, AlertOctagon, FastForward, RotateCcw, Play, Wifi } from 'lucide-react';
 import { clsx } from 'clsx';
 
-type SearchMode = 'PUBMED' | 'SEMANTIC';
+const EMPTY_STATS: CycleStats = {
+  totalScanned: 0,
+  passedVector: 0,
+  aiAnalyzed: 0,
+  qualified: 0,
+  speedupActive: false,
+  energySaved: 0,
+  scrapeAttempted: 0,
+  scrapeSucceeded: 0,
+  scrapeViaProxy: 0,
+  scrapeStrategies: {},
+  scrapeFailures: {}
+};
+
+// Below this the extract is not worth sending to the grader
+const MIN_FULL_TEXT_CHARS = 500;
 
 const App: React.FC = () => {
   // Config State
@@ -47,11 +70,31 @@ const App: React.FC = () => {
     zoteroLibraryId: '',
     useLocalZotero: false,
     zoteroIp: '127.0.0.1',
-    zoteroPort: '23119'
+    zoteroPort: '23119',
+
+    ncbiApiKey: '',
+    ncbiEmail: '',
+
+    semanticScholarApiKey: '',
+    semanticScholarBulk: false,
+
+    fullTextSections: DEFAULT_FULL_TEXT_SECTIONS,
+    fullTextCharBudget: 10000,
+
+    scrapeCacheTtlDays: DEFAULT_SCRAPE_CACHE_TTL_DAYS,
+
+    unpaywallEmail: '',
+
+    corsProxyEnabled: true,
+    corsProxyTemplate: DEFAULT_CORS_PROXY,
+    corsProxyAuthHeader: '',
+
+    snowballEnabled: false,
+    snowballMaxPerSeed: 50
   });
 
   // Runtime State
-  const [searchMode, setSearchMode] = useState<SearchMode>('PUBMED');
+  const [searchMode, setSearchMode] = useState<string>(DEFAULT_SOURCE_ID);
   const [useWebScraping, setUseWebScraping] = useState(false); 
   const [showQueueModal, setShowQueueModal] = useState(false); 
   const [showExportModal, setShowExportModal] = useState(false);
@@ -69,8 +112,6 @@ const App: React.FC = () => {
       id: `q-init-${i}`,
       query: q,
       status: 'READY',
-      vecMin: 0.59,
-      compMin: 0.60,
       probMin: 5,
       startRec: 0,
       stopRec: 1000,
@@ -101,16 +142,10 @@ const App: React.FC = () => {
   const [processingState, setProcessingState] = useState<{ id: string; title: string } | null>(null);
   const userActionResolverRef = useRef<((action: 'RETRY' | 'SKIP') => void) | null>(null);
 
-  const [stats, setStats] = useState<CycleStats>({
-    totalScanned: 0,
-    passedVector: 0,
-    aiAnalyzed: 0,
-    qualified: 0,
-    speedupActive: false,
-    energySaved: 0
-  });
+  const [stats, setStats] = useState<CycleStats>(EMPTY_STATS);
 
   const aiServiceRef = useRef<AIService | null>(null);
+  const embeddingModelRef = useRef<string>(''); // embeddingModelKey of aiServiceRef's embedder
   const scraperServiceRef = useRef<ScraperService>(new ScraperService());
   const abortControllerRef = useRef<AbortController | null>(null);
   
@@ -128,7 +163,7 @@ const App: React.FC = () => {
 
   useEffect(() => {
       setResults([]);
-      setStats({ totalScanned: 0, passedVector: 0, aiAnalyzed: 0, qualified: 0, speedupActive: false, energySaved: 0 });
+      setStats(EMPTY_STATS);
       setQueue(prev => prev.map(q => ({ ...q, status: 'READY', yield: undefined, details: undefined })));
   }, [searchMode]);
 
@@ -140,22 +175,61 @@ const App: React.FC = () => {
     });
   }, []);
 
+  // PMIDs of qualified papers per query in the current feed (similar-articles seeds)
+  const qualifiedSeeds = useMemo(() => {
+      const byQuery = new Map<string, Set<string>>();
+      results.forEach(r => {
+          if (r.type !== 'PAPER' || !r.data.paper.pmid) return;
+          if (r.data.result.status !== 'QUALIFIED' && r.data.result.status !== 'QUALIFIED_SPEEDUP') return;
+          const q = r.data.result.querySource;
+          if (!byQuery.has(q)) byQuery.set(q, new Set());
+          byQuery.get(q)!.add(r.data.paper.pmid);
+      });
+      return Array.from(byQuery.entries()).map(([query, pmids]) => ({ query, pmids: Array.from(pmids) }));
+  }, [results]);
+
   const onManualRetry = () => userActionResolverRef.current?.('RETRY');
   const onManualSkip = () => userActionResolverRef.current?.('SKIP');
 
+  // Embedding and grading may use different providers; one service when they are the same
+  useEffect(() => {
+    aiServiceRef.current = createPipelineService(config, handleNetworkLog);
+    embeddingModelRef.current = embeddingModelKey(config);
+  }, [config.provider, config.embeddingProvider, config.geminiApiKey, config.geminiModel, config.geminiEmbeddingModel,
+      config.ollamaBaseUrl, config.ollamaModel, config.ollamaEmbeddingModel,
+      config.openaiBaseUrl, config.openaiApiKey, config.openaiModel, config.openaiEmbeddingModel, config.openaiStructuredOutput, handleNetworkLog]);
+
+  const generationModel = providerModel(config.provider, 'generation', config);
+  const embeddingModel = embeddingModelKey(config);
+
+  // Read from the refs at call time, so a settings change mid-run shows up as a model mismatch instead of silent zeros
+  const embed = async (text: string, signal: AbortSignal): Promise<EmbeddingVector | null> => {
+      const model = embeddingModelRef.current;
+      return toEmbeddingVector(await aiServiceRef.current!.getEmbedding(text, signal), model);
+  };
+
   useEffect(() => {
-    aiServiceRef.current = null;
-    if (config.provider === 'gemini' && config.geminiApiKey) {
-        aiServiceRef.current = new GeminiService(config.geminiApiKey, config.geminiModel);
-    } else if (config.provider === 'ollama' && config.ollamaBaseUrl && config.ollamaModel) {
-        aiServiceRef.current = new OllamaService(
-            config.ollamaBaseUrl, 
-            config.ollamaModel, 
-            config.ollamaEmbeddingModel || 'nomic-embed-text',
-            handleNetworkLog
-        );
-    }
-  }, [config.provider, config.geminiApiKey, config.geminiModel, config.ollamaBaseUrl, config.ollamaModel, config.ollamaEmbeddingModel, handleNetworkLog]);
+    ncbiClient.configure({ apiKey: config.ncbiApiKey, email: config.ncbiEmail, onLog: handleNetworkLog });
+  }, [config.ncbiApiKey, config.ncbiEmail, handleNetworkLog]);
+
+  useEffect(() => {
+    scraperServiceRef.current.configure({
+      proxyEnabled: config.corsProxyEnabled,
+      proxyTemplate: config.corsProxyTemplate,
+      proxyAuthHeader: config.corsProxyAuthHeader,
+      profiles: config.scraperProfiles,
+      cacheTtlDays: config.scrapeCacheTtlDays,
+      onLog: handleNetworkLog
+    });
+  }, [config.corsProxyEnabled, config.corsProxyTemplate, config.corsProxyAuthHeader, config.scraperProfiles, config.scrapeCacheTtlDays, handleNetworkLog]);
+
+  useEffect(() => {
+    configureOpenAccess({ email: config.unpaywallEmail || config.ncbiEmail });
+  }, [config.unpaywallEmail, config.ncbiEmail]);
+
+  useEffect(() => {
+    configureSemanticScholar({ apiKey: config.semanticScholarApiKey, useBulkSearch: config.semanticScholarBulk });
+  }, [config.semanticScholarApiKey, config.semanticScholarBulk]);
 
   const handleCancel = () => {
       if (abortControllerRef.current) {
@@ -185,10 +259,33 @@ const App: React.FC = () => {
       setQueue(prev => prev.map((item, i) => i === index ? { ...item, status, ...extra } : item));
   };
 
+  // Prefers the PMC open-access XML, then a legal OA copy, then the publisher page.
+  // `tried` keeps every attempt so an abstract-only grade can say why.
+  const fetchFullText = async (paper: Paper, signal: AbortSignal) => {
+      const tried: FullTextExtract[] = [];
+      let fullText: FullTextExtract = { text: "", sections: [] };
+      if (paper.pmcid && paper.isOpenAccess) {
+          const pmcText = await fetchEuropePMCFullText(paper.pmcid, signal);
+          fullText = pmcText
+              ? { ...splitFullTextSections(pmcText), strategy: 'pmc-xml' }
+              : { text: "", sections: [], strategy: 'pmc-xml', failure: 'NO_BODY', failureDetail: "No Europe PMC full-text XML" };
+          tried.push(fullText);
+      }
+      const openAccess = await resolveOpenAccess(paper, signal) ?? undefined;
+      const attempt = async (extract: Promise<FullTextExtract>) => {
+          fullText = await extract;
+          tried.push(fullText);
+      };
+      if (!fullText.text && openAccess?.pdfUrl) await attempt(scraperServiceRef.current.extractPdf(openAccess.pdfUrl, paper.doi));
+      if (!fullText.text && openAccess && openAccess.url !== openAccess.pdfUrl) await attempt(scraperServiceRef.current.extractWebpageText(openAccess.url, paper.doi));
+      if (!fullText.text) await attempt(scraperServiceRef.current.extractWebpageText(paper.url, paper.doi));
+      return { fullText, tried, openAccess };
+  };
+
   // Returns TRUE if the batch loop should STOP (e.g. Fail Fast Triggered)
   const processPaperBatch = async (
       papers: Paper[], 
-      queryVector: number[] | null, 
+      queryVector: EmbeddingVector | null, 
       validSentenceVectors: any[], 
       currentItem: QueueItem,
       signal: AbortSignal,
@@ -196,14 +293,49 @@ const App: React.FC = () => {
   ): Promise<boolean> => {
       if (papers.length === 0) return false;
 
-      const paperEmbeddings: (number[] | null)[] = [];
+      // One full-text fetch per paper and batch: abstract recovery and the grading context share it
+      const fullTextFetches = new Map<string, ReturnType<typeof fetchFullText>>();
+      const getFullText = (p: Paper) => {
+          if (!fullTextFetches.has(p.id)) fullTextFetches.set(p.id, fetchFullText(p, signal));
+          return fullTextFetches.get(p.id)!;
+      };
+
+      // A missing abstract would be embedded as the "No abstract available." placeholder and score near zero.
+      // Full text is only fetched for the summary when Deep Scraping is on.
+      const recovered: Paper[] = [];
+      for (let c = 0; c < papers.length; c += 5) {
+          if (signal.aborted) break;
+          recovered.push(...await Promise.all(papers.slice(c, c + 5).map(p =>
+              recoverAbstract(p, aiServiceRef.current!, useWebScraping ? async () => (await getFullText(p)).fullText : null, signal)
+          )));
+      }
+      papers = recovered;
+
+      // Only sections that some rule targets are worth an extra embedding call
+      const targetedSections = new Set<AbstractSectionCategory>(
+          validSentenceVectors.map(sv => sv.targetSection).filter(Boolean)
+      );
+      const embedSections = async (p: Paper) => {
+          const vectors = new Map<AbstractSectionCategory, EmbeddingVector>();
+          for (const category of targetedSections) {
+              const text = (p.abstractSections || []).filter(sec => sec.category === category).map(sec => sec.text).join(' ');
+              if (!text) continue;
+              const vector = await embed(text, signal);
+              if (vector) vectors.set(category, vector);
+          }
+          return vectors;
+      };
+
+      const paperEmbeddings: (EmbeddingVector | null)[] = [];
+      const sectionEmbeddings: Map<AbstractSectionCategory, EmbeddingVector>[] = [];
       for (let c = 0; c < papers.length; c += 5) {
           if (signal.aborted) break;
           const chunk = papers.slice(c, c + 5);
           const chunkResults = await Promise.all(chunk.map(p => 
-              aiServiceRef.current!.getEmbedding(`${p.title} ${p.abstract}`, signal)
+              embed(`${p.title} ${p.abstract}`, signal)
           ));
           paperEmbeddings.push(...chunkResults);
+          sectionEmbeddings.push(...await Promise.all(chunk.map(embedSections)));
           await new Promise(r => setTimeout(r, 50)); 
       }
 
@@ -213,22 +345,26 @@ const App: React.FC = () => {
 
            const paper = papers[pIdx];
            const paperVector = paperEmbeddings[pIdx];
+           const sectionVectors = sectionEmbeddings[pIdx];
            
            let vectorScore = 0;
            if (paperVector && queryVector) {
-               vectorScore = cosineSimilarity(queryVector, paperVector);
+               vectorScore = compareEmbeddings(queryVector, paperVector);
            }
 
            let compositeScore = 0;
            const matches: any[] = [];
            if (paperVector && validSentenceVectors.length > 0) {
                 const ruleScores = validSentenceVectors.map(sv => {
-                    const similarity = cosineSimilarity(sv.vector, paperVector!);
+                    // Section-targeted rules fall back to the whole paper for unstructured abstracts
+                    const sectionVector = sv.targetSection ? sectionVectors?.get(sv.targetSection) : undefined;
+                    const similarity = compareEmbeddings(sv.vector, sectionVector || paperVector!);
                     const weightedScore = sv.positive ? similarity : -similarity;
                     if (similarity > 0.35) {
                         matches.push({ 
                             sentenceId: sv.id, sentence: sv.text, tag: sv.customTag, 
-                            netScore: weightedScore, rawScore: similarity 
+                            netScore: weightedScore, rawScore: similarity,
+                            section: sectionVector ? sv.targetSection : undefined
                         });
                     }
                     return weightedScore;
@@ -237,12 +373,16 @@ const App: React.FC = () => {
                 compositeScore = ruleScores.slice(0, 6).reduce((acc, val) => acc + val, 0) / 6;
            }
            
-           const passedVector = vectorScore >= (currentItem.vecMin ?? config.minVectorScore);
+           // Seeded rows arrive ranked by PubMed similarity; without topic text there is nothing to score them against
+           const vectorGateOff = !!currentItem.seedPmids?.length && !currentItem.query.trim();
+           const passedVector = vectorGateOff || vectorScore >= (currentItem.vecMin ?? config.minVectorScore);
            const passedComposite = compositeScore >= (currentItem.compMin ?? config.minCompositeScore);
            
            let status: ProcessingResult['status'] = 'FILTERED_OUT';
            let skippedAi = true;
            let aiAnalysis: any = undefined;
+           let openAccess: OpenAccessLocation | undefined;
+           let scrape: ScrapeOutcome | undefined;
 
            if (passedVector || passedComposite) {
                cycleRef.current.processedCount++;
@@ -267,11 +407,40 @@ const App: React.FC = () => {
                        // AI ANALYSIS
                        skippedAi = false;
                        let contextAbstract = paper.abstract;
+                       scrape = { attempted: useWebScraping, chars: 0 };
                        if (useWebScraping) {
                             try {
-                               const fullText = await scraperServiceRef.current.extractWebpageText(paper.url);
-                               if (fullText && fullText.length > 500) contextAbstract += `\n\n[FULL TEXT EXTRACT]: ${fullText.substring(0, 10000)}`;
-                            } catch (e) { console.warn("Scraping failed", paper.id); }
+                               const { fullText, tried, openAccess: oa } = await getFullText(paper);
+                               openAccess = oa;
+
+                               scrape = {
+                                   attempted: true,
+                                   strategy: fullText.strategy,
+                                   url: fullText.url,
+                                   proxyUsed: tried.some(t => t.proxyUsed),
+                                   httpStatus: fullText.httpStatus,
+                                   cached: !!fullText.cachedAt,
+                                   chars: fullText.text.length
+                               };
+                               if (fullText.text.length > MIN_FULL_TEXT_CHARS) {
+                                   // Only the configured sections (e.g. Methods/Results) go to the grader
+                                   const context = buildFullTextContext(fullText, config.fullTextSections || DEFAULT_FULL_TEXT_SECTIONS, config.fullTextCharBudget || 10000);
+                                   contextAbstract += `\n\n[FULL TEXT EXTRACT]: ${context}`;
+                                   scrape.charsSent = context.length;
+                               } else if (fullText.text) {
+                                   scrape.failure = 'NO_BODY';
+                                   scrape.failureDetail = `Only ${fullText.text.length} chars extracted`;
+                               } else {
+                                   // The most specific reason wins over "no URL"
+                                   const failed = tried.filter(t => t.failure);
+                                   const worst = failed.find(t => t.failure !== 'NO_URL') || failed[0];
+                                   scrape.failure = worst?.failure || 'NO_URL';
+                                   scrape.failureDetail = failed.map(t => t.failureDetail).filter(Boolean).join('; ') || undefined;
+                               }
+                            } catch (e: any) {
+                               console.warn("Scraping failed", paper.id, e);
+                               scrape = { attempted: true, chars: 0, failure: 'ERROR', failureDetail: e?.message || String(e) };
+                            }
                        }
                        
                        const analysisPaper = { ...paper, abstract: contextAbstract };
@@ -352,12 +521,13 @@ const App: React.FC = () => {
            const result: ProcessingResult = {
                paperId: paper.id, 
                querySource: currentItem.query, 
+               isPreprint: paper.isPreprint,
                vectorScore, compositeScore, matches: matches.slice(0, 3),
                passedVectorFilter: passedVector, passedCompositeFilter: passedComposite,
                vectorMin: currentItem.vecMin ?? config.minVectorScore,
                compositeMin: currentItem.compMin ?? config.minCompositeScore,
                probabilityMin: currentItem.probMin ?? config.minProbabilityScore,
-               aiAnalysis, skippedAi, status,
+               aiAnalysis, skippedAi, status, openAccess, scrape,
                speedupStatistics: {
                    processed: cycleRef.current.processedCount,
                    qualified: cycleRef.current.qualifiedCount,
@@ -379,7 +549,18 @@ const App: React.FC = () => {
                aiAnalyzed: prev.aiAnalyzed + (skippedAi ? 0 : 1),
                qualified: prev.qualified + (status === 'QUALIFIED' || status === 'QUALIFIED_SPEEDUP' ? 1 : 0),
                speedupActive: hasTriggeredSmartModeRef.current,
-               energySaved: prev.energySaved + (skippedAi ? 1 : 0)
+               energySaved: prev.energySaved + (skippedAi ? 1 : 0),
+               ...(scrape?.attempted ? {
+                   scrapeAttempted: prev.scrapeAttempted + 1,
+                   scrapeSucceeded: prev.scrapeSucceeded + (scrape.charsSent ? 1 : 0),
+                   scrapeViaProxy: prev.scrapeViaProxy + (scrape.proxyUsed ? 1 : 0),
+                   scrapeStrategies: scrape.charsSent && scrape.strategy
+                       ? { ...prev.scrapeStrategies, [scrape.strategy]: (prev.scrapeStrategies[scrape.strategy] || 0) + 1 }
+                       : prev.scrapeStrategies,
+                   scrapeFailures: scrape.failure
+                       ? { ...prev.scrapeFailures, [scrape.failure]: (prev.scrapeFailures[scrape.failure] || 0) + 1 }
+                       : prev.scrapeFailures
+               } : {})
            }));
 
            if (cycleRef.current.failFastTriggered) return true;
@@ -387,15 +568,125 @@ const App: React.FC = () => {
       return false;
   };
 
+  // A later batch or source returned papers this run already graded: credit their sources on the earlier result
+  const recordProvenance = (duplicates: Paper[]) => {
+      if (duplicates.length === 0) return;
+      const withProvenance = (paper: Paper) =>
+          duplicates.reduce((acc, dup) => isSamePaper(acc, dup) ? mergeProvenance(acc, dup) : acc, paper);
+
+      const pending = pendingSpeedupExportRef.current;
+      pending.forEach((entry, i) => { pending[i] = { ...entry, paper: withProvenance(entry.paper) }; });
+      setResults(prev => prev.map(r => {
+          if (r.type !== 'PAPER') return r;
+          const paper = withProvenance(r.data.paper);
+          return paper === r.data.paper ? r : { ...r, data: { ...r.data, paper } };
+      }));
+  };
+
+  // Citation snowball: one hop out from a finished query's QUALIFIED papers,
+  // graded by the same pipeline under its own header
+  const runSnowballCycle = async (
+      item: QueueItem,
+      seeds: Paper[],
+      queryVector: EmbeddingVector | null,
+      activeSentenceVectors: any[],
+      seenPaperKeys: Set<string>,
+      mode: 'single' | 'cycle',
+      signal: AbortSignal
+  ): Promise<boolean> => {
+      cycleRef.current = { processedCount: 0, qualifiedCount: 0, failFastTriggered: false };
+      hasTriggeredSmartModeRef.current = false;
+      const snowballExport: { paper: Paper; result: ProcessingResult }[] = [];
+      const maxPerSeed = config.snowballMaxPerSeed || 50;
+
+      const headerId = `snowball-${Date.now()}`;
+      setResults(prev => [...prev, {
+          type: 'HEADER',
+          data: {
+            id: headerId,
+            query: item.query,
+            timestamp: Date.now(),
+            kind: 'snowball',
+            seedCount: seeds.length,
+            configSnapshot: {
+                vectorMin: item.vecMin ?? config.minVectorScore,
+                compMin: item.compMin ?? config.minCompositeScore,
+                probMin: item.probMin ?? config.minProbabilityScore,
+                gradingTopics: config.gradingTopics,
+                startRec: 0,
+                stopRec: maxPerSeed * 2 * seeds.length,
+                source: "Citation Graph (Semantic Scholar + PubMed)",
+                filters: describeFilters(item.filters),
+                unappliedFilters: describeUnappliedFilters(item.filters, [getSource('SEMANTIC')].filter((s): s is PaperSource => !!s)),
+                model: generationModel, embeddingModel,
+                speedUp: true, failFast: config.failFast,
+                speedupSampleCount: config.speedupSampleCount,
+                qualifyRate: config.speedupQualifyRate,
+                collection: item.collectionId || "Default",
+                mode: mode === 'cycle' ? "Automated Cycle (Snowball)" : "Single Query (Snowball)",
+                semanticRuleCount: activeSentenceVectors.length
+            }
+          }
+      }]);
+
+      const { papers: neighbours, rateLimitedSources, failedSources } = await collectCitationNeighbours(seeds, maxPerSeed, seenPaperKeys, signal);
+      // Drop the seeds and anything the keyword query already graded
+      const candidates = filterUnseen(neighbours, seenPaperKeys).filter(p => matchesFilters(p, item.filters));
+      setResults(prev => prev.map(r =>
+          r.type === 'HEADER' && r.data.id === headerId
+          ? { ...r, data: { ...r.data, totalRecords: candidates.length } }
+          : r
+      ));
+
+      let failFastStop = false;
+      const BATCH_SIZE = 20;
+      for (let i = 0; i < candidates.length; i += BATCH_SIZE) {
+          if (signal.aborted) return false;
+          if (await processPaperBatch(candidates.slice(i, i + BATCH_SIZE), queryVector, activeSentenceVectors, item, signal, snowballExport)) {
+              failFastStop = true;
+              break;
+          }
+      }
+      if (signal.aborted) return false;
+
+      const failed = Object.entries(failedSources);
+      const stopNote = [
+          rateLimitedSources.length > 0 ? `Rate limited by ${rateLimitedSources.join(', ')}: HTTP 429 persisted after retries, so not every citation link was followed.` : '',
+          failed.length > 0 ? `Link lookup failed for ${failed.map(([label, message]) => `${label}: ${message}`).join('; ')}. Neighbours from the other source were kept.` : ''
+      ].filter(Boolean).join(' ');
+
+      setResults(prev => [...prev, {
+          type: 'CYCLE_COMPLETE',
+          data: {
+              id: `end-${headerId}`,
+              query: `${item.query} (snowball)`,
+              totalFound: cycleRef.current.processedCount,
+              qualifiedCount: snowballExport.length,
+              status: failFastStop ? 'FAIL_FAST' : (rateLimitedSources.length > 0 ? 'RATE_LIMITED' : 'COMPLETED'),
+              failFastReason: failFastStop ? `Fail Fast Triggered: 0 qualified papers found in the first ${config.speedupSampleCount} processed items.` : (stopNote || undefined),
+              rateLimitedSources: rateLimitedSources.length > 0 ? rateLimitedSources : undefined,
+              failedSources: failed.length > 0 ? failed.map(([label]) => label) : undefined
+          }
+      }]);
+      // A stopped link source left neighbours unexplored, so the item stays runnable
+      return rateLimitedSources.length === 0 && failed.length === 0;
+  };
+
   const handleRunCycle = async (mode: 'single' | 'cycle' = 'single') => {
       // DEBUG LOG
       console.log("Run Cycle Requested:", mode);
 
       if (!aiServiceRef.current) {
-          alert("Please configure AI Service first (Gemini/Ollama).");
+          alert("Please configure the embedding and grading providers first.");
           setShowSettings(true);
           return;
       }
+
+      const source = getSource(searchMode);
+      if (!source) {
+          alert(`Unknown literature source: ${searchMode}`);
+          return;
+      }
       
       // Identify target items first
       let targetIds: string[] = [];
@@ -421,14 +712,15 @@ const App: React.FC = () => {
       setResults([]); 
       abortControllerRef.current = new AbortController();
       const signal = abortControllerRef.current.signal;
-      
+      let runningItem: { index: number; query: string } | null = null; // Set back to runnable if the run throws
+
       try {
           // Pre-compute sentence vectors
           const validSentences = (config.semanticSentences || []).filter(s => s.enabled);
           const validSentenceVectors = await Promise.all(
               validSentences.map(async (s) => ({
                   ...s,
-                  vector: await aiServiceRef.current!.getEmbedding(s.text, signal)
+                  vector: await embed(s.text, signal)
               }))
           );
           const activeSentenceVectors = validSentenceVectors.filter(s => s.vector !== null);
@@ -443,6 +735,7 @@ const App: React.FC = () => {
               
               const item = queueRef.current[qIdx];
               updateQueueStatus(qIdx, 'RUNNING');
+              runningItem = { index: qIdx, query: item.query };
 
               // Reset Cycle-Specific State for this Query
               cycleRef.current = { processedCount: 0, qualifiedCount: 0, failFastTriggered: false };
@@ -452,6 +745,23 @@ const App: React.FC = () => {
               const STOP_LIMIT = item.stopRec && item.stopRec > 0 ? item.stopRec : 1000;
               const START_REC = item.startRec || 0;
 
+              // Seeded items page PubMed neighbours; otherwise fan out to the item's
+              // own source list, else the navbar selection
+              const itemSources = item.seedPmids?.length
+                  ? [createPubMedSimilarSource(item.seedPmids)]
+                  : Array.from(new Set<string>(item.sources || []))
+                      .map(id => getSource(id))
+                      .filter((s): s is PaperSource => !!s);
+              if (itemSources.length === 0) itemSources.push(source);
+              const sourceLabel = itemSources.map(s => s.label).join(' + ');
+
+              // Watch mode: only records added since the last uninterrupted run, minus papers already processed
+              const runStartedAt = Date.now();
+              const watchMark = item.watch ? getWatchMark(item) : undefined;
+              const runFilters = watchMark?.lastRun
+                  ? { ...item.filters, addedSince: toDateString(watchMark.lastRun) }
+                  : item.filters;
+
               // Header
               const headerId = `cycle-${Date.now()}`;
               setResults(prev => [...prev, { 
@@ -468,24 +778,30 @@ const App: React.FC = () => {
                         gradingTopics: config.gradingTopics,
                         startRec: START_REC,
                         stopRec: STOP_LIMIT,
-                        source: searchMode,
-                        model: config.provider === 'gemini' ? config.geminiModel : config.ollamaModel,
+                        source: sourceLabel,
+                        filters: describeFilters(runFilters),
+                        unappliedFilters: describeUnappliedFilters(runFilters, itemSources),
+                        model: generationModel, embeddingModel,
                         speedUp: true, failFast: config.failFast,
                         speedupSampleCount: config.speedupSampleCount,
                         qualifyRate: config.speedupQualifyRate,
                         collection: item.collectionId || "Default",
-                        mode: mode === 'cycle' ? "Automated Cycle" : "Single Query",
+                        mode: (mode === 'cycle' ? "Automated Cycle" : "Single Query") + (item.watch ? (watchMark?.lastRun ? " (Watch)" : " (Watch, first run)") : ""),
                         semanticRuleCount: activeSentenceVectors.length
                     }
                   }
               }]);
 
-              const queryVector = await aiServiceRef.current!.getEmbedding(item.query, signal);
+              const queryVector = await embed(item.query.trim(), signal);
               
               // --- BATCH LOOP ---
               let currentStart = START_REC;
               const BATCH_SIZE = 20;
               let failFastStop = false;
+              const exhaustedSources = new Set<string>();
+              const rateLimitedSources = new Map<string, number>(); // Source id -> index where 429s stopped it (incomplete, NOT exhausted)
+              const failedSources = new Map<string, string>(); // Source id -> error that stopped it; the other sources carry on
+              const seenPaperKeys = new Set<string>(watchMark?.seenKeys); // Cross-batch dedupe so a paper is embedded/graded once
 
               while (currentStart < STOP_LIMIT) {
                  if (signal.aborted) break;
@@ -496,50 +812,57 @@ const App: React.FC = () => {
 
                  const currentBatchSize = Math.min(BATCH_SIZE, STOP_LIMIT - currentStart);
 
-                 let papers: Paper[] = [];
-                 
-                 if (searchMode === 'PUBMED') {
-                     const { ids, total } = await getPubMedIds(item.query, currentStart, currentBatchSize, signal);
-                     
-                     if (currentStart === START_REC && total > 0) {
-                         setResults(prev => prev.map(r => 
-                            r.type === 'HEADER' && r.data.id === headerId 
-                            ? { ...r, data: { ...r.data, totalRecords: total } } 
-                            : r
-                         ));
+                 const activeSources = itemSources.filter(s => !exhaustedSources.has(s.id) && !rateLimitedSources.has(s.id) && !failedSources.has(s.id));
+                 const pages = await Promise.all(activeSources.map(async src => {
+                     try {
+                         const { ids, total, papers: prefetched } = await src.search(item.query, currentStart, currentBatchSize, runFilters, signal);
+                         if (ids.length === 0) {
+                             exhaustedSources.add(src.id);
+                             return { total, papers: [] as Paper[] };
+                         }
+                         return { total, papers: prefetched ?? await src.fetchDetails(ids, signal) };
+                     } catch (e: any) {
+                         if (e.name === 'AbortError') throw e;
+                         if (e instanceof SourceRateLimitError) {
+                             rateLimitedSources.set(src.id, currentStart);
+                         } else {
+                             console.error(`[${src.label}] Search failed at index ${currentStart}`, e);
+                             failedSources.set(src.id, `${e.message} (at index ${currentStart})`);
+                         }
+                         return { total: 0, papers: [] as Paper[] };
                      }
+                 }));
+
+                 const total = pages.reduce((acc, p) => acc + p.total, 0);
+                 if (currentStart === START_REC && total > 0) {
+                     setResults(prev => prev.map(r => 
+                        r.type === 'HEADER' && r.data.id === headerId 
+                        ? { ...r, data: { ...r.data, totalRecords: total } } 
+                        : r
+                     ));
+                 }
 
-                     if (ids.length === 0) {
-                         setResults(prev => [...prev, {
-                             type: 'CYCLE_COMPLETE',
-                             data: { id: 'exhausted-block', query: item.query, totalFound: cycleRef.current.processedCount, qualifiedCount: cycleRef.current.qualifiedCount, status: 'FAIL_FAST', failFastReason: `Source exhausted. No more records found after index ${currentStart}.` }
-                         }]);
-                         break; 
-                     }
-                     papers = await fetchPubMedPapers(ids, signal);
-                 } else {
-                     const { papers: semanticPapers, total } = await searchSemanticScholar(item.query, currentBatchSize, currentStart, signal);
-                     papers = semanticPapers;
-
-                     if (currentStart === START_REC && total > 0) {
-                         setResults(prev => prev.map(r => 
-                            r.type === 'HEADER' && r.data.id === headerId 
-                            ? { ...r, data: { ...r.data, totalRecords: total } } 
-                            : r
-                         ));
-                     }
+                 // Every source throttled, failed or exhausted: the closing block reports why
+                 const stoppedSources = rateLimitedSources.size + failedSources.size;
+                 if (stoppedSources > 0 && exhaustedSources.size + stoppedSources === itemSources.length) break;
 
-                     if (papers.length === 0) {
-                          setResults(prev => [...prev, {
-                             type: 'CYCLE_COMPLETE',
-                             data: { id: 'exhausted-block', query: item.query, totalFound: cycleRef.current.processedCount, qualifiedCount: cycleRef.current.qualifiedCount, status: 'FAIL_FAST', failFastReason: `No more records found in Semantic Scholar after index ${currentStart}.` }
-                         }]);
-                         break;
-                     }
+                 if (exhaustedSources.size === itemSources.length) {
+                     setResults(prev => [...prev, {
+                         type: 'CYCLE_COMPLETE',
+                         data: { id: 'exhausted-block', query: item.query, totalFound: cycleRef.current.processedCount, qualifiedCount: cycleRef.current.qualifiedCount, status: 'FAIL_FAST', failFastReason: `Source exhausted. No more records found in ${sourceLabel} after index ${currentStart}.` }
+                     }]);
+                     break; 
                  }
 
+                 // Sources are listed in priority order, so the first copy of a paper is kept.
+                 // matchesFilters catches what a source could not filter natively (e.g. S2 exclusions)
+                 const duplicates: Paper[] = [];
+                 const papers = filterUnseen(mergePapers(pages.flatMap(p => p.papers)), seenPaperKeys, p => duplicates.push(p))
+                     .filter(p => matchesFilters(p, runFilters));
+                 recordProvenance(duplicates);
+
                  if (papers.length === 0) {
-                      // Skip batch if fetch failed but didn't throw
+                      // Everything in this batch was already seen or filtered out
                       currentStart += BATCH_SIZE;
                       continue;
                  }
@@ -557,26 +880,76 @@ const App: React.FC = () => {
                   ? `${((cycleRef.current.qualifiedCount / cycleRef.current.processedCount)*100).toFixed(0)}%` 
                   : '0%';
               
-              const finalStatus = failFastStop ? 'NEEDS_ADJUSTMENT' : 'COMPLETED';
+              // A throttled or failed source left records unfetched, so the item stays runnable
+              const finalStatus = failFastStop || rateLimitedSources.size > 0 || failedSources.size > 0 ? 'NEEDS_ADJUSTMENT' : 'COMPLETED';
               updateQueueStatus(qIdx, finalStatus, { yield: yieldStr });
 
               if (!signal.aborted) {
+                  const throttledSources = itemSources.filter(s => rateLimitedSources.has(s.id));
+                  const throttled = throttledSources.map(s => `${s.label} (at index ${rateLimitedSources.get(s.id)})`);
+                  const erroredSources = itemSources.filter(s => failedSources.has(s.id));
+                  const sourceErrors = erroredSources.length > 0
+                      ? `Search failed for ${erroredSources.map(s => `${s.label}: ${failedSources.get(s.id)}`).join('; ')}. Results from the other sources were kept.`
+                      : undefined;
+
+                  // Only watched queries keep a mark; its date only advances when nothing was left unfetched
+                  const watchStart = watchRunStart(runStartedAt, {
+                      failFast: failFastStop,
+                      stoppedSources: rateLimitedSources.size + failedSources.size,
+                      truncated: currentStart >= STOP_LIMIT && exhaustedSources.size < itemSources.length
+                  });
+                  const watchError = item.watch ? saveWatchMark(item, seenPaperKeys, watchStart) : null;
+                  const watchNotes = item.watch ? [
+                      watchError ? `${watchError}. The next watch run may repeat papers from this one.` : '',
+                      watchStart === undefined ? 'The watch date was not advanced, so the next run searches this window again.' : ''
+                  ].filter(Boolean).join(' ') : '';
+
                   const completeBlock: CycleCompleteData = {
                       id: `end-${headerId}`,
                       query: item.query,
                       totalFound: cycleRef.current.processedCount,
                       qualifiedCount: pendingSpeedupExportRef.current.length,
-                      status: failFastStop ? 'FAIL_FAST' : 'COMPLETED',
-                      failFastReason: failFastStop ? `Fail Fast Triggered: 0 qualified papers found in the first ${config.speedupSampleCount} processed items.` : undefined
+                      status: failFastStop ? 'FAIL_FAST' : (throttled.length > 0 ? 'RATE_LIMITED' : 'COMPLETED'),
+                      failFastReason: failFastStop
+                        ? `Fail Fast Triggered: 0 qualified papers found in the first ${config.speedupSampleCount} processed items.`
+                        : [throttled.length > 0 ? `Rate limited by ${throttled.join(', ')}: HTTP 429 persisted after retries. Remaining records were NOT fetched; the source is not exhausted. Resume later or add an API key.` : '', sourceErrors || ''].filter(Boolean).join(' ') || undefined,
+                      rateLimitedSources: throttled.length > 0 ? throttledSources.map(s => s.label) : undefined,
+                      failedSources: erroredSources.length > 0 ? erroredSources.map(s => s.label) : undefined,
+                      watchWarning: watchNotes || undefined
                   };
                   setResults(prev => [...prev, { type: 'CYCLE_COMPLETE', data: completeBlock }]);
               }
+
+              if (config.snowballEnabled && !failFastStop && !signal.aborted) {
+                  // Only AI-confirmed papers seed the expansion; speedup passes were never graded
+                  const seeds = pendingSpeedupExportRef.current.filter(r => r.result.status === 'QUALIFIED').map(r => r.paper);
+                  if (seeds.length > 0 && !await runSnowballCycle(item, seeds, queryVector, activeSentenceVectors, seenPaperKeys, mode, signal) && !signal.aborted) {
+                      updateQueueStatus(qIdx, 'NEEDS_ADJUSTMENT', { yield: yieldStr });
+                  }
+              }
           }
 
       } catch (e: any) {
           if (e.name !== 'AbortError') {
               console.error("Cycle Error:", e);
-              alert(`Error running cycle: ${e.message}`);
+              const failed = runningItem;
+              if (failed) updateQueueStatus(failed.index, 'NEEDS_ADJUSTMENT');
+              if (e instanceof EmbeddingMismatchError && failed) {
+                  // Vectors from two models cannot be scored; close the cycle and say why instead of leaving it open
+                  setResults(prev => [...prev, {
+                      type: 'CYCLE_COMPLETE',
+                      data: {
+                          id: `error-${Date.now()}`,
+                          query: failed.query,
+                          totalFound: cycleRef.current.processedCount,
+                          qualifiedCount: pendingSpeedupExportRef.current.length,
+                          status: 'FAIL_FAST',
+                          failFastReason: e.message
+                      }
+                  }]);
+              } else {
+                  alert(`Error running cycle: ${e.message}`);
+              }
           }
       } finally {
           setIsProcessing(false);
@@ -598,8 +971,9 @@ const App: React.FC = () => {
         </div>
         
         <div className="flex bg-slate-100 p-1 rounded-lg border border-slate-200">
-             <button onClick={() => setSearchMode('PUBMED')} className={clsx("px-3 py-1 text-xs font-bold rounded-md flex items-center gap-2", searchMode === 'PUBMED' ? "bg-white text-blue-700 shadow-sm" : "text-slate-500")}><Search size={12} /> PubMed</button>
-             <button onClick={() => setSearchMode('SEMANTIC')} className={clsx("px-3 py-1 text-xs font-bold rounded-md flex items-center gap-2", searchMode === 'SEMANTIC' ? "bg-white text-blue-700 shadow-sm" : "text-slate-500")}><Globe size={12} /> Semantic</button>
+             {listSources().map(src => (
+                 <button key={src.id} onClick={() => setSearchMode(src.id)} className={clsx("px-3 py-1 text-xs font-bold rounded-md flex items-center gap-2", searchMode === src.id ? "bg-white text-blue-700 shadow-sm" : "text-slate-500")}>{src.id === 'PUBMED' ? <Search size={12} /> : <Globe size={12} />} {src.label}</button>
+             ))}
         </div>
 
         <div className="flex items-center gap-3">
@@ -631,7 +1005,7 @@ const App: React.FC = () => {
                     </div>
                 )}
                 
-                {isQueryManagerOpen && <div className="mb-6"><QueryManager queue={queue} onUpdateQueue={setQueue} config={config} onRun={handleRunCycle} isProcessing={isProcessing} /></div>}
+                {isQueryManagerOpen && <div className="mb-6"><QueryManager queue={queue} onUpdateQueue={setQueue} config={config} onRun={handleRunCycle} isProcessing={isProcessing} qualifiedSeeds={qualifiedSeeds} defaultSourceId={searchMode} /></div>}
 
                 <div className="space-y-4 pb-20">
                     {results.length === 0 && !isProcessing && (
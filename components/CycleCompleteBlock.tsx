@@ -1,7 +1,7 @@
 
 import React from 'react';
 import { CycleCompleteData } from '../types';
-import { Zap, AlertTriangle, Check } from 'lucide-react';
+import { Zap, AlertTriangle, Check, Clock } from 'lucide-react';
 import { clsx } from 'clsx';
 
 interface CycleCompleteBlockProps {
@@ -10,15 +10,24 @@ interface CycleCompleteBlockProps {
 }
 
 const CycleCompleteBlock: React.FC<CycleCompleteBlockProps> = ({ data }) => {
+  const isRateLimited = data.status === 'RATE_LIMITED';
+  // Finished, but one or more sources errored out along the way
+  const isPartial = data.status === 'COMPLETED' && !!data.failedSources?.length;
+  const isWarning = data.status === 'FAIL_FAST' || isPartial;
+
   return (
     <div className="my-4 rounded-xl border-2 border-slate-200 bg-white overflow-hidden shadow-sm animate-fadeIn">
       {/* Header Bar */}
       <div className={clsx(
           "px-4 py-3 flex items-center justify-between",
-          data.status === 'FAIL_FAST' ? "bg-orange-50 border-b border-orange-100" : "bg-green-50 border-b border-green-100"
+          isRateLimited ? "bg-red-50 border-b border-red-100" : isWarning ? "bg-orange-50 border-b border-orange-100" : "bg-green-50 border-b border-green-100"
       )}>
           <div className="flex items-center gap-3">
-              {data.status === 'FAIL_FAST' ? (
+              {isRateLimited ? (
+                  <div className="bg-red-100 text-red-600 p-2 rounded-lg">
+                      <Clock size={20} />
+                  </div>
+              ) : isWarning ? (
                   <div className="bg-orange-100 text-orange-600 p-2 rounded-lg">
                       <AlertTriangle size={20} />
                   </div>
@@ -28,8 +37,8 @@ const CycleCompleteBlock: React.FC<CycleCompleteBlockProps> = ({ data }) => {
                   </div>
               )}
               <div>
-                  <h3 className={clsx("font-bold text-sm uppercase tracking-wide", data.status === 'FAIL_FAST' ? "text-orange-800" : "text-green-800")}>
-                      Cycle Complete: {data.status === 'FAIL_FAST' ? "Interrupted" : "Success"}
+                  <h3 className={clsx("font-bold text-sm uppercase tracking-wide", isRateLimited ? "text-red-800" : isWarning ? "text-orange-800" : "text-green-800")}>
+                      Cycle Complete: {isRateLimited ? `Rate Limited (${data.rateLimitedSources?.join(', ')})` : data.status === 'FAIL_FAST' ? "Interrupted" : isPartial ? `Partial (${data.failedSources?.join(', ')} failed)` : "Success"}
                   </h3>
                   <p className="text-xs text-slate-500 font-medium">Query: "{data.query}"</p>
               </div>
@@ -56,11 +65,21 @@ const CycleCompleteBlock: React.FC<CycleCompleteBlockProps> = ({ data }) => {
           {/* Status Indicator (No Action) */}
           <div className="w-full sm:w-auto">
               <div className="px-6 py-3 bg-slate-100 text-slate-400 rounded-lg font-bold text-sm border border-slate-200 flex items-center justify-center gap-2 cursor-default">
-                  {data.status === 'FAIL_FAST' ? (
+                  {isRateLimited ? (
+                       <>
+                         <Clock size={16} />
+                         <span>Throttled, Not Exhausted</span>
+                       </>
+                  ) : data.status === 'FAIL_FAST' ? (
                        <>
                          <AlertTriangle size={16} />
                          <span>Stopped Early</span>
                        </>
+                  ) : isPartial ? (
+                       <>
+                         <AlertTriangle size={16} />
+                         <span>Some Sources Failed</span>
+                       </>
                   ) : (
                        <>
                          <Check size={16} />
@@ -73,11 +92,19 @@ const CycleCompleteBlock: React.FC<CycleCompleteBlockProps> = ({ data }) => {
       
       {data.failFastReason && (
           <div className="px-4 pb-3">
-              <p className="text-xs text-orange-600 bg-orange-50/50 p-2 rounded border border-orange-100">
+              <p className={clsx("text-xs p-2 rounded border", isRateLimited ? "text-red-600 bg-red-50/50 border-red-100" : "text-orange-600 bg-orange-50/50 border-orange-100")}>
                   <strong>Reason:</strong> {data.failFastReason}
               </p>
           </div>
       )}
+
+      {data.watchWarning && (
+          <div className="px-4 pb-3">
+              <p className="text-xs p-2 rounded border text-amber-700 bg-amber-50/50 border-amber-100">
+                  <strong>Watch:</strong> {data.watchWarning}
+              </p>
+          </div>
+      )}
     </div>
   );
 };
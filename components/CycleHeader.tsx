@@ -1,7 +1,7 @@
 
 import React, { useEffect, useState } from 'react';
 import { CycleHeaderData } from '../types';
-import { RefreshCw, Rocket, Settings, ListFilter, Gauge, Database } from 'lucide-react';
+import { RefreshCw, Rocket, Settings, ListFilter, Gauge, Database, Network } from 'lucide-react';
 
 interface CycleHeaderProps {
   header: CycleHeaderData;
@@ -9,6 +9,7 @@ interface CycleHeaderProps {
 
 const CycleHeader: React.FC<CycleHeaderProps> = ({ header }) => {
   const { query, timestamp, configSnapshot, totalRecords } = header;
+  const isSnowball = header.kind === 'snowball';
 
   const StatItem = ({ label, value, sub }: { label: string; value: string | number | boolean; sub?: string }) => (
     <div className="flex flex-col min-w-[80px]">
@@ -38,17 +39,20 @@ const CycleHeader: React.FC<CycleHeaderProps> = ({ header }) => {
         {/* Title Strip */}
         <div className="bg-slate-50 p-3 border-b border-slate-200 flex items-center justify-between">
             <div className="flex items-center gap-3">
-                <div className="bg-blue-100 p-1.5 rounded-md text-blue-700">
-                    <Rocket size={18} />
+                <div className={isSnowball ? "bg-teal-100 p-1.5 rounded-md text-teal-700" : "bg-blue-100 p-1.5 rounded-md text-blue-700"}>
+                    {isSnowball ? <Network size={18} /> : <Rocket size={18} />}
                 </div>
                 <div>
-                    <h3 className="font-bold text-slate-800 text-base leading-tight">Query: "{query}"</h3>
-                    <p className="text-[10px] text-slate-500 font-mono">Run Configuration Audit</p>
+                    <h3 className="font-bold text-slate-800 text-base leading-tight">{isSnowball ? 'Citation Snowball' : 'Query'}: "{query}"</h3>
+                    <p className="text-[10px] text-slate-500 font-mono">
+                        {isSnowball ? `References + citing papers of ${header.seedCount ?? 0} qualified seed${header.seedCount === 1 ? '' : 's'}` : 'Run Configuration Audit'}
+                    </p>
                 </div>
             </div>
             <div className="text-right hidden sm:block">
                 <div className="text-[10px] uppercase font-bold text-slate-400">Model</div>
                 <div className="text-xs font-bold text-slate-700">{configSnapshot.model}</div>
+                {configSnapshot.embeddingModel && <div className="text-[10px] font-mono text-slate-400" title="Embedding model">{configSnapshot.embeddingModel}</div>}
             </div>
         </div>
 
@@ -87,9 +91,19 @@ const CycleHeader: React.FC<CycleHeaderProps> = ({ header }) => {
                         <span className="text-[9px] font-bold uppercase">Source / Scope</span>
                      </div>
                      <StatItem label="Source" value={configSnapshot.source} />
-                     <StatItem label="Range" value={`${configSnapshot.startRec} - ${configSnapshot.stopRec}`} />
+                     {configSnapshot.filters && configSnapshot.filters !== 'None' && (
+                         <StatItem label="Filters" value={configSnapshot.filters} />
+                     )}
+                     {configSnapshot.unappliedFilters && (
+                         <StatItem label="Not applied" value={configSnapshot.unappliedFilters} />
+                     )}
+                     {isSnowball ? (
+                         <StatItem label="Seeds" value={header.seedCount ?? 0} sub="papers" />
+                     ) : (
+                         <StatItem label="Range" value={`${configSnapshot.startRec} - ${configSnapshot.stopRec}`} />
+                     )}
                      {totalRecords !== undefined ? (
-                         <StatItem label="DB Total" value={totalRecords.toLocaleString()} sub="records" />
+                         <StatItem label={isSnowball ? "Candidates" : "DB Total"} value={totalRecords.toLocaleString()} sub="records" />
                      ) : (
                          <StatItem label="Collection" value={configSnapshot.collection} />
                      )}
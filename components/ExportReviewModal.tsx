@@ -327,7 +327,7 @@ const ExportReviewModal: React.FC<ExportReviewModalProps> = ({ isOpen, onClose,
                                                         {item.paper.title}
                                                     </div>
                                                     <div className="text-[10px] text-slate-400 font-mono">
-                                                        {item.paper.authors[0]} ({item.paper.year})
+                                                        {item.paper.authors[0]} ({item.paper.year || 'n.d.'})
                                                     </div>
                                                 </td>
                                                 <td className={clsx("p-2 text-right font-mono", item.result.vectorScore >= cycle.dynVecMin ? "text-green-600 font-bold" : "text-slate-400")}>
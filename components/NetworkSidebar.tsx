@@ -133,7 +133,7 @@ const NetworkSidebar: React.FC<NetworkSidebarProps> = ({ logs, isProcessing, onC
                  {isOpen ? <ChevronDown size={10} /> : <ChevronRight size={10} />}
                  {`${timeStr}.${msStr}`}
                </span>
-               <span className={clsx("font-bold uppercase px-1 rounded text-[9px]", log.source === 'Ollama' ? "bg-orange-900/30 text-orange-400" : (log.source === 'Zotero' ? "bg-red-900/30 text-red-400" : "bg-blue-900/30 text-blue-400"))}>
+               <span className={clsx("font-bold uppercase px-1 rounded text-[9px]", log.source === 'Ollama' ? "bg-orange-900/30 text-orange-400" : (log.source === 'Zotero' ? "bg-red-900/30 text-red-400" : (log.source === 'NCBI' ? "bg-emerald-900/30 text-emerald-400" : (log.source === 'Proxy' ? "bg-purple-900/30 text-purple-400" : (log.source === 'OpenAI' ? "bg-teal-900/30 text-teal-400" : "bg-blue-900/30 text-blue-400")))))}>
                  {log.source}
                </span>
             </div>
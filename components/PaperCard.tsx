@@ -1,6 +1,7 @@
 
 import React, { useState } from 'react';
 import { Paper, ProcessingResult } from '../types';
+import { SCRAPE_FAILURE_LABELS } from '../constants';
 import { Check, X, AlertTriangle, ChevronRight, ChevronDown, PenTool, Leaf, FlaskConical, Sprout, FastForward } from 'lucide-react';
 import { clsx } from 'clsx';
 
@@ -17,6 +18,8 @@ const PaperCard: React.FC<PaperCardProps> = ({ paper, result }) => {
   const isRejected = result.status === 'AI_REJECTED';
   const isFiltered = result.status === 'FILTERED_OUT';
   const ai = result.aiAnalysis;
+  const scrape = result.scrape?.attempted ? result.scrape : undefined;
+  const gradedOnFullText = !!scrape?.charsSent;
 
   // Determine status color/icon
   let statusColor = 'text-slate-500';
@@ -78,6 +81,16 @@ const PaperCard: React.FC<PaperCardProps> = ({ paper, result }) => {
       return `${actual.toFixed(2)}/${min.toFixed(2)}`;
   };
   
+  const describeScrape = () => {
+      if (!scrape) return "";
+      if (gradedOnFullText) {
+          return `Graded on full text: ${scrape.strategy || 'unknown'}, ${scrape.charsSent} of ${scrape.chars} chars sent` +
+              (scrape.proxyUsed ? ', via proxy' : '') + (scrape.cached ? ', cached' : '');
+      }
+      const reason = scrape.failure ? SCRAPE_FAILURE_LABELS[scrape.failure] : 'unknown';
+      return `Abstract only (${reason})${scrape.httpStatus && scrape.httpStatus >= 400 ? `, HTTP ${scrape.httpStatus}` : ''}${scrape.failureDetail ? `: ${scrape.failureDetail}` : ''}`;
+  };
+
   const formatProb = (actual?: number, min?: number) => {
       const actVal = actual !== undefined ? actual : '-';
       const minVal = min !== undefined ? min : '-';
@@ -114,6 +127,17 @@ const PaperCard: React.FC<PaperCardProps> = ({ paper, result }) => {
                     [Score: {ai?.score ?? 0}/10]
                 </span>
             )}
+            {(result.isPreprint ?? paper.isPreprint) && (
+                <span className="flex-shrink-0 text-[9px] font-bold uppercase text-amber-700 bg-amber-50 border border-amber-200 px-1 rounded" title={`Preprint (${paper.preprintServer || 'not peer reviewed'})`}>Preprint</span>
+            )}
+            {paper.syntheticAbstract && (
+                <span className="flex-shrink-0 text-[9px] font-bold uppercase text-amber-700 bg-amber-50 border border-amber-200 px-1 rounded" title={paper.syntheticAbstract === 'full-text' ? 'No source abstract: summarized from the full text before embedding' : 'No source abstract: embedded on title, journal and subject terms'}>Synthetic Abstract</span>
+            )}
+            {scrape && (
+                <span className={clsx("flex-shrink-0 text-[9px] font-bold uppercase px-1 rounded border",
+                    gradedOnFullText ? "text-teal-700 bg-teal-50 border-teal-200" : "text-slate-500 bg-slate-50 border-slate-200"
+                )} title={describeScrape()}>{gradedOnFullText ? 'Full Text' : 'Abstract Only'}</span>
+            )}
             <span className="text-slate-700 truncate font-sans font-medium" title={paper.title}>{paper.title}</span>
         </div>
         
@@ -162,10 +186,31 @@ const PaperCard: React.FC<PaperCardProps> = ({ paper, result }) => {
                 <h3 className="text-sm font-bold text-slate-900 border-b border-slate-200 pb-1 mb-2">1. Citation Data</h3>
                 <div className="text-xs text-slate-600 grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1">
                     <div><span className="font-bold">Authors:</span> {paper.authors?.join(', ') || 'Unknown'}</div>
-                    <div><span className="font-bold">Year:</span> {paper.year}</div>
+                    <div><span className="font-bold">Year:</span> {paper.publishedDate || paper.year || 'n.d.'}</div>
+                    {paper.venue && <div><span className="font-bold">Venue:</span> {paper.venue}{paper.volume && `, ${paper.volume}`}{paper.issue && `(${paper.issue})`}{paper.pages && `:${paper.pages}`}</div>}
+                    {paper.publicationTypes && <div><span className="font-bold">Type:</span> {paper.publicationTypes.join(', ')}</div>}
                     {paper.doi && <div><span className="font-bold">DOI:</span> <a href={`https://doi.org/${paper.doi}`} className="text-blue-600 hover:underline">{paper.doi}</a></div>}
                     <div><span className="font-bold">Source:</span> {paper.source}</div>
+                    {paper.foundIn && paper.foundIn.length > 1 && <div><span className="font-bold">Found In:</span> {paper.foundIn.join(', ')}</div>}
+                    {paper.isPreprint && <div><span className="font-bold">Preprint Server:</span> {paper.preprintServer || 'Unknown'}</div>}
+                    {paper.pmcid && <div><span className="font-bold">PMCID:</span> <a href={`https://europepmc.org/article/PMC/${paper.pmcid}`} target="_blank" className="text-blue-600 hover:underline">{paper.pmcid}</a>{paper.isOpenAccess && <span className="ml-2 text-[10px] font-bold text-green-700 bg-green-50 border border-green-200 px-1 rounded">OPEN ACCESS</span>}</div>}
+                    {paper.meshHeadings && <div className="col-span-2"><span className="font-bold">MeSH:</span> {paper.meshHeadings.map((h, i) => <span key={i} className={clsx(h.majorTopic && "font-bold text-slate-800")}>{i > 0 && '; '}{h.descriptor}{h.majorTopic && '*'}</span>)}</div>}
+                    {paper.keywords && <div className="col-span-2"><span className="font-bold">Keywords:</span> {paper.keywords.join('; ')}</div>}
+                    {paper.affiliations && <div className="col-span-2 truncate" title={paper.affiliations.join('\n')}><span className="font-bold">Affiliations:</span> {paper.affiliations.join('; ')}</div>}
                     <div className="col-span-2"><span className="font-bold">Link:</span> <a href={paper.url} target="_blank" className="text-blue-600 hover:underline">{paper.url}</a></div>
+                    {result.openAccess && (
+                        <div className="col-span-2 truncate">
+                            <span className="font-bold">Free Full Text:</span> <a href={result.openAccess.pdfUrl || result.openAccess.url} target="_blank" className="text-green-700 hover:underline">{result.openAccess.pdfUrl || result.openAccess.url}</a>
+                            <span className="ml-2 text-[10px] font-bold text-green-700 bg-green-50 border border-green-200 px-1 rounded uppercase">{result.openAccess.license || 'license unknown'}</span>
+                        </div>
+                    )}
+                    {scrape && (
+                        <div className="col-span-2 truncate" title={describeScrape()}>
+                            <span className="font-bold">Grading Input:</span>{' '}
+                            <span className={gradedOnFullText ? "text-teal-700" : "text-slate-500"}>{describeScrape()}</span>
+                            {scrape.url && <> — <a href={scrape.url} target="_blank" className="text-blue-600 hover:underline">{scrape.url}</a></>}
+                        </div>
+                    )}
                 </div>
             </section>
 
@@ -175,10 +220,25 @@ const PaperCard: React.FC<PaperCardProps> = ({ paper, result }) => {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     {/* Left: Source */}
                     <div className="bg-slate-50 p-3 rounded border border-slate-100">
-                        <h4 className="text-[10px] text-slate-400 uppercase font-bold mb-1">Source Abstract</h4>
-                        <div className="text-xs text-slate-800 leading-relaxed text-justify">
-                            {paper.abstract}
-                        </div>
+                        <h4 className="text-[10px] text-slate-400 uppercase font-bold mb-1">
+                            {paper.syntheticAbstract ? (
+                                <span className="text-amber-700">Synthetic Abstract ({paper.syntheticAbstract === 'full-text' ? 'summarized from full text' : 'built from metadata'})</span>
+                            ) : 'Source Abstract'}
+                        </h4>
+                        {paper.abstractSections ? (
+                            <div className="space-y-1.5">
+                                {paper.abstractSections.map((sec, i) => (
+                                    <div key={i} className="text-xs text-slate-800 leading-relaxed text-justify">
+                                        <span className="font-bold text-[10px] text-slate-500 uppercase mr-1">{sec.label}:</span>
+                                        {sec.text}
+                                    </div>
+                                ))}
+                            </div>
+                        ) : (
+                            <div className="text-xs text-slate-800 leading-relaxed text-justify">
+                                {paper.abstract}
+                            </div>
+                        )}
                     </div>
                     {/* Right: AI */}
                     <div className="bg-blue-50/30 p-3 rounded border border-blue-100">
@@ -265,6 +325,7 @@ const PaperCard: React.FC<PaperCardProps> = ({ paper, result }) => {
                                 </div>
                                 <div className="font-bold text-slate-700 flex items-center gap-2">
                                     S-Tag: <span className="bg-yellow-100 text-yellow-800 px-1 rounded">{m.tag || 'Unknown'}</span>
+                                    {m.section && <span className="text-[9px] font-bold text-indigo-700 bg-indigo-50 border border-indigo-200 px-1 rounded uppercase">{m.section}</span>}
                                 </div>
                                 <div className="italic text-slate-500 mt-1">"{m.sentence}"</div>
                             </div>
@@ -1,8 +1,12 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { QueueItem, AppConfig, QueueStatus } from '../types';
-import { PlayCircle, Trash2, Save, FolderOpen, RefreshCcw, Plus, CheckSquare, Square, Check, RotateCcw, Wrench, Download, Upload } from 'lucide-react';
+import { QueueItem, AppConfig, QueueStatus, QueryFilters, PaperSource } from '../types';
+import { PUBLICATION_TYPES, FILTER_LANGUAGES } from '../constants';
+import { describeFilters, hasFilters } from '../services/filterService';
+import { getWatchMark } from '../services/watchService';
+import { PlayCircle, Trash2, Save, FolderOpen, RefreshCcw, Plus, CheckSquare, Square, Check, RotateCcw, Wrench, Download, Upload, Share2, Filter, Eye } from 'lucide-react';
 import { clsx } from 'clsx';
+import { listSources, getSource } from '../services/sourceRegistry';
 
 interface QueryManagerProps {
   queue: QueueItem[];
@@ -10,15 +14,35 @@ interface QueryManagerProps {
   config: AppConfig;
   onRun: (mode: 'single' | 'cycle') => void;
   isProcessing: boolean;
+  qualifiedSeeds?: { query: string; pmids: string[] }[]; // Qualified PMIDs per finished query, for similar-articles rows
+  defaultSourceId?: string; // Navbar source, searched by rows without their own source list
 }
 
+// CSV columns YearFrom, YearTo, Language, IncludeTypes, ExcludeTypes -> QueryFilters
+const parseFilters = ([yearFrom, yearTo, language, include, exclude]: string[]): QueryFilters | undefined => {
+  const filters: QueryFilters = {
+    yearFrom: parseInt(yearFrom) || undefined,
+    yearTo: parseInt(yearTo) || undefined,
+    language: language || undefined,
+    includeTypes: include ? include.split('|').filter(t => t.length > 0) : undefined,
+    excludeTypes: exclude ? exclude.split('|').filter(t => t.length > 0) : undefined
+  };
+  return hasFilters(filters) ? filters : undefined;
+};
+
+// Empty VecMin/CompMin cells keep the row on the embedding model's defaults
+const parseThreshold = (text: string): number | undefined => text === '' || isNaN(parseFloat(text)) ? undefined : parseFloat(text);
+
+// Splits free text ("123, 456 789") into numeric PMIDs
+const parsePmids = (text: string): string[] => text.split(/[^0-9]+/).filter(id => id.length > 0);
+
 interface SavedQueueConfig {
   name: string;
   queue: QueueItem[];
   date: number;
 }
 
-const QueryManager: React.FC<QueryManagerProps> = ({ queue, onUpdateQueue, config, onRun, isProcessing }) => {
+const QueryManager: React.FC<QueryManagerProps> = ({ queue, onUpdateQueue, config, onRun, isProcessing, qualifiedSeeds = [], defaultSourceId }) => {
   // UI State
   const [queryMode, setQueryMode] = useState<'single' | 'cycle'>('cycle');
   
@@ -30,6 +54,9 @@ const QueryManager: React.FC<QueryManagerProps> = ({ queue, onUpdateQueue, confi
   const [globalStart, setGlobalStart] = useState<number>(0);
   const [globalStop, setGlobalStop] = useState<number>(1000);
   
+  const [seedQuery, setSeedQuery] = useState('');
+  const [expandedFilterId, setExpandedFilterId] = useState<string | null>(null);
+
   const [configName, setConfigName] = useState('');
   const [selectedConfig, setSelectedConfig] = useState('');
   const [savedConfigs, setSavedConfigs] = useState<SavedQueueConfig[]>([]);
@@ -136,18 +163,21 @@ const QueryManager: React.FC<QueryManagerProps> = ({ queue, onUpdateQueue, confi
 
   // CSV Operations
   const handleExportCSV = () => {
-    const headers = ["Query", "CollectionID", "VecMin", "CompMin", "ProbMin", "StartRec", "StopRec"];
+    const headers = ["Query", "CollectionID", "VecMin", "CompMin", "ProbMin", "StartRec", "StopRec", "Sources", "SeedPMIDs", "YearFrom", "YearTo", "Language", "IncludeTypes", "ExcludeTypes", "Watch"];
     const csvRows = [
         headers.join(","),
         ...queue.map(item => {
              const q = (item.query || "").replace(/"/g, '""');
              const c = (item.collectionId || "").replace(/"/g, '""');
-             const v = item.vecMin ?? config.minVectorScore;
-             const cm = item.compMin ?? config.minCompositeScore;
+             const v = item.vecMin ?? '';
+             const cm = item.compMin ?? '';
              const p = item.probMin ?? config.minProbabilityScore;
              const start = item.startRec ?? 0;
              const stop = item.stopRec ?? 1000;
-             return `"${q}","${c}",${v},${cm},${p},${start},${stop}`;
+             const sources = (item.sources || []).join('|');
+             const seeds = (item.seedPmids || []).join('|');
+             const f = item.filters || {};
+             return `"${q}","${c}",${v},${cm},${p},${start},${stop},"${sources}","${seeds}",${f.yearFrom ?? ''},${f.yearTo ?? ''},${f.language || ''},"${(f.includeTypes || []).join('|')}","${(f.excludeTypes || []).join('|')}",${item.watch ? 1 : 0}`;
         })
     ];
 
@@ -216,11 +246,15 @@ const QueryManager: React.FC<QueryManagerProps> = ({ queue, onUpdateQueue, confi
                       id: `q-imp-${Date.now()}-${i}`,
                       query: cleanParts[0],
                       collectionId: cleanParts[1],
-                      vecMin: parseFloat(cleanParts[2]),
-                      compMin: parseFloat(cleanParts[3]),
+                      vecMin: parseThreshold(cleanParts[2]),
+                      compMin: parseThreshold(cleanParts[3]),
                       probMin: parseFloat(cleanParts[4]),
                       startRec: parseInt(cleanParts[5]),
                       stopRec: parseInt(cleanParts[6]),
+                      sources: cleanParts[7] ? cleanParts[7].split('|').filter(s => s.length > 0) : undefined,
+                      seedPmids: cleanParts[8] ? parsePmids(cleanParts[8]) : undefined,
+                      filters: parseFilters(cleanParts.slice(9, 14)),
+                      watch: cleanParts[14] === '1' || cleanParts[14]?.toLowerCase() === 'true' || undefined,
                       status: 'READY',
                       selected: false
                   });
@@ -247,8 +281,6 @@ const QueryManager: React.FC<QueryManagerProps> = ({ queue, onUpdateQueue, confi
       id: `q-${Date.now()}`,
       query: "New Query...",
       status: 'READY',
-      vecMin: config.minVectorScore,
-      compMin: config.minCompositeScore,
       probMin: config.minProbabilityScore,
       startRec: 0,
       stopRec: 1000,
@@ -257,12 +289,55 @@ const QueryManager: React.FC<QueryManagerProps> = ({ queue, onUpdateQueue, confi
     onUpdateQueue([...queue, newItem]);
   };
 
+  const addSimilarRow = (query: string, pmids: string[] = []) => {
+    const newItem: QueueItem = {
+      id: `q-${Date.now()}`,
+      query,
+      status: 'READY',
+      probMin: config.minProbabilityScore,
+      startRec: 0,
+      stopRec: 1000,
+      seedPmids: pmids,
+      selected: false
+    };
+    onUpdateQueue([...queue, newItem]);
+  };
+
+  const handleSeedFromQualified = () => {
+    const seed = qualifiedSeeds.find(s => s.query === seedQuery) || qualifiedSeeds[0];
+    if (seed) addSimilarRow(seed.query, seed.pmids);
+  };
+
   // Field Updates
   const updateItem = (id: string, field: keyof QueueItem, value: any) => {
     const updated = queue.map(item => item.id === id ? { ...item, [field]: value } : item);
     onUpdateQueue(updated);
   };
 
+  const toggleSource = (item: QueueItem, sourceId: string) => {
+      const current = item.sources || [];
+      const next = current.includes(sourceId) ? current.filter(s => s !== sourceId) : [...current, sourceId];
+      updateItem(item.id, 'sources', next.length > 0 ? next : undefined);
+  };
+
+  const updateFilters = (item: QueueItem, patch: Partial<QueryFilters>) => {
+      const next = { ...(item.filters || {}), ...patch };
+      updateItem(item.id, 'filters', hasFilters(next) ? next : undefined);
+  };
+
+  // Publication type chips cycle: neutral -> include -> exclude -> neutral
+  const cyclePublicationType = (item: QueueItem, type: string) => {
+      const include = item.filters?.includeTypes || [];
+      const exclude = item.filters?.excludeTypes || [];
+      if (include.includes(type)) {
+          updateFilters(item, { includeTypes: include.filter(t => t !== type), excludeTypes: [...exclude, type] });
+      } else if (exclude.includes(type)) {
+          updateFilters(item, { excludeTypes: exclude.filter(t => t !== type) });
+      } else {
+          updateFilters(item, { includeTypes: [...include, type] });
+      }
+  };
+
   const toggleSelect = (id: string) => {
       const updated = queue.map(item => item.id === id ? { ...item, selected: !item.selected } : item);
       onUpdateQueue(updated);
@@ -449,11 +524,14 @@ const QueryManager: React.FC<QueryManagerProps> = ({ queue, onUpdateQueue, confi
                             <th className="p-3 w-24 text-center">Prob Min</th>
                             <th className="p-3 w-24 text-center">Start #</th>
                             <th className="p-3 w-24 text-center">Stop #</th>
+                            <th className="p-3 min-w-[180px]" title="Databases to fan out to. None selected = navbar source.">Sources</th>
+                            <th className="p-3 min-w-[160px]" title="Applied as native source filters before anything is embedded">Filters</th>
                         </tr>
                     </thead>
                     <tbody className="divide-y divide-slate-100">
                         {queue.map((item) => (
-                            <tr key={item.id} className={clsx("hover:bg-slate-50 transition-colors", item.selected && "bg-blue-50/50")}>
+                            <React.Fragment key={item.id}>
+                            <tr className={clsx("hover:bg-slate-50 transition-colors", item.selected && "bg-blue-50/50")}>
                                 <td className="p-3 text-center">
                                     <button onClick={() => toggleSelect(item.id)} className="text-slate-400 hover:text-blue-600">
                                         {item.selected ? <CheckSquare size={16} className="text-blue-600" /> : <Square size={16} />}
@@ -461,6 +539,7 @@ const QueryManager: React.FC<QueryManagerProps> = ({ queue, onUpdateQueue, confi
                                 </td>
                                 <td className="p-3">
                                     <StatusBadge status={item.status} />
+                                    <WatchToggle item={item} defaultSourceId={defaultSourceId} onToggle={() => updateItem(item.id, 'watch', !item.watch || undefined)} />
                                 </td>
                                 <td className="p-3">
                                     <input 
@@ -468,8 +547,20 @@ const QueryManager: React.FC<QueryManagerProps> = ({ queue, onUpdateQueue, confi
                                         value={item.query} 
                                         onChange={(e) => updateItem(item.id, 'query', e.target.value)}
                                         className="w-full bg-transparent border-none text-sm focus:ring-0 p-0 font-medium text-slate-800"
-                                        placeholder="Enter query..."
+                                        placeholder={item.seedPmids ? "Topic for vector scoring (optional)" : "Enter query..."}
                                     />
+                                    {item.seedPmids && (
+                                        <div className="flex items-center gap-1 mt-1" title="Similar-articles mode: PubMed neighbours of these PMIDs are processed instead of a search. The query text, if any, is used for vector scoring; without it every neighbour passes the vector filter.">
+                                            <span className="text-[9px] font-bold uppercase text-teal-700 bg-teal-50 border border-teal-200 px-1 rounded flex-shrink-0">Seeds</span>
+                                            <input 
+                                                type="text" 
+                                                value={item.seedPmids.join(', ')} 
+                                                onChange={(e) => updateItem(item.id, 'seedPmids', parsePmids(e.target.value))}
+                                                className="w-full bg-transparent border-b border-slate-200 text-[10px] font-mono text-slate-600 focus:ring-0 p-0"
+                                                placeholder="PMIDs, e.g. 31415926, 27182818"
+                                            />
+                                        </div>
+                                    )}
                                 </td>
                                 <td className="p-3">
                                     <input 
@@ -520,11 +611,93 @@ const QueryManager: React.FC<QueryManagerProps> = ({ queue, onUpdateQueue, confi
                                         className="w-16 text-center text-xs bg-white border-none p-0 focus:ring-0"
                                     />
                                 </td>
+                                <td className="p-3">
+                                    {item.seedPmids ? (
+                                        <span className="text-[9px] font-bold px-1.5 py-0.5 rounded border bg-teal-50 text-teal-700 border-teal-200">PubMed Similar Articles</span>
+                                    ) : (
+                                    <div className="flex flex-wrap gap-1">
+                                        {listSources().map(src => {
+                                            const active = item.sources?.includes(src.id);
+                                            return (
+                                                <button 
+                                                    key={src.id}
+                                                    onClick={() => toggleSource(item, src.id)}
+                                                    className={clsx("text-[9px] font-bold px-1.5 py-0.5 rounded border", active ? "bg-blue-100 text-blue-700 border-blue-200" : "bg-white text-slate-400 border-slate-200 hover:text-slate-600")}
+                                                >
+                                                    {src.label}
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                    )}
+                                </td>
+                                <td className="p-3">
+                                    <button 
+                                        onClick={() => setExpandedFilterId(expandedFilterId === item.id ? null : item.id)}
+                                        className={clsx("flex items-center gap-1 text-[10px] font-bold px-1.5 py-0.5 rounded border max-w-[200px]", hasFilters(item.filters) ? "bg-amber-50 text-amber-700 border-amber-200" : "bg-white text-slate-400 border-slate-200 hover:text-slate-600")}
+                                        title={describeFilters(item.filters)}
+                                    >
+                                        <Filter size={10} className="flex-shrink-0" />
+                                        <span className="truncate">{describeFilters(item.filters)}</span>
+                                    </button>
+                                </td>
                             </tr>
+                            {expandedFilterId === item.id && (
+                                <tr className="bg-amber-50/30">
+                                    <td colSpan={11} className="px-6 py-3">
+                                        <div className="flex flex-wrap items-center gap-4 text-xs">
+                                            <div className="flex items-center gap-1">
+                                                <span className="font-bold text-slate-500 uppercase text-[10px]">Years</span>
+                                                <input 
+                                                    type="number" placeholder="From"
+                                                    value={item.filters?.yearFrom ?? ''}
+                                                    onChange={(e) => updateFilters(item, { yearFrom: parseInt(e.target.value) || undefined })}
+                                                    className="w-16 text-center text-xs bg-white border border-slate-200 rounded p-1"
+                                                />
+                                                <span className="text-slate-400">–</span>
+                                                <input 
+                                                    type="number" placeholder="To"
+                                                    value={item.filters?.yearTo ?? ''}
+                                                    onChange={(e) => updateFilters(item, { yearTo: parseInt(e.target.value) || undefined })}
+                                                    className="w-16 text-center text-xs bg-white border border-slate-200 rounded p-1"
+                                                />
+                                            </div>
+                                            <div className="flex items-center gap-1">
+                                                <span className="font-bold text-slate-500 uppercase text-[10px]">Language</span>
+                                                <select 
+                                                    value={item.filters?.language || ''}
+                                                    onChange={(e) => updateFilters(item, { language: e.target.value || undefined })}
+                                                    className="text-xs bg-white border border-slate-200 rounded p-1"
+                                                >
+                                                    <option value="">Any</option>
+                                                    {FILTER_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                                                </select>
+                                            </div>
+                                            <div className="flex flex-wrap items-center gap-1">
+                                                <span className="font-bold text-slate-500 uppercase text-[10px]" title="Click to cycle: include → exclude → off">Types</span>
+                                                {PUBLICATION_TYPES.map(type => {
+                                                    const included = item.filters?.includeTypes?.includes(type);
+                                                    const excluded = item.filters?.excludeTypes?.includes(type);
+                                                    return (
+                                                        <button 
+                                                            key={type}
+                                                            onClick={() => cyclePublicationType(item, type)}
+                                                            className={clsx("text-[9px] font-bold px-1.5 py-0.5 rounded border", included ? "bg-green-100 text-green-700 border-green-200" : excluded ? "bg-red-100 text-red-700 border-red-200 line-through" : "bg-white text-slate-400 border-slate-200 hover:text-slate-600")}
+                                                        >
+                                                            {included ? '+ ' : excluded ? '− ' : ''}{type}
+                                                        </button>
+                                                    );
+                                                })}
+                                            </div>
+                                        </div>
+                                    </td>
+                                </tr>
+                            )}
+                            </React.Fragment>
                         ))}
                         {queue.length === 0 && (
                             <tr>
-                                <td colSpan={10} className="p-8 text-center text-slate-400 italic bg-slate-50">
+                                <td colSpan={11} className="p-8 text-center text-slate-400 italic bg-slate-50">
                                     Queue is empty. Add a query below or load a configuration.
                                 </td>
                             </tr>
@@ -538,6 +711,23 @@ const QueryManager: React.FC<QueryManagerProps> = ({ queue, onUpdateQueue, confi
             <button onClick={addNewRow} className="flex items-center gap-2 px-3 py-1.5 bg-blue-50 text-blue-700 rounded text-xs font-bold hover:bg-blue-100">
                 <Plus size={14} /> Add Query Row
             </button>
+            <button onClick={() => addSimilarRow("")} className="flex items-center gap-2 px-3 py-1.5 bg-teal-50 text-teal-700 rounded text-xs font-bold hover:bg-teal-100" title="Process PubMed's similar articles for a list of seed PMIDs">
+                <Share2 size={14} /> Add Similar-Articles Row
+            </button>
+            {qualifiedSeeds.length > 0 && (
+                <div className="flex items-center gap-1">
+                    <select 
+                        value={seedQuery}
+                        onChange={(e) => setSeedQuery(e.target.value)}
+                        className="text-xs border border-slate-200 rounded p-1 max-w-[180px]"
+                    >
+                        {qualifiedSeeds.map(s => <option key={s.query} value={s.query}>{s.query} ({s.pmids.length})</option>)}
+                    </select>
+                    <button onClick={handleSeedFromQualified} className="flex items-center gap-2 px-3 py-1.5 bg-white border border-teal-200 text-teal-700 rounded text-xs font-bold hover:bg-teal-50" title="Add a similar-articles row seeded with this query's qualified PMIDs">
+                        <Share2 size={14} /> Seed From Qualified
+                    </button>
+                </div>
+            )}
             <button onClick={handleDeleteSelected} className="flex items-center gap-2 px-3 py-1.5 bg-white border border-slate-200 text-slate-500 rounded text-xs font-bold hover:text-red-600 hover:border-red-200">
                 <Trash2 size={14} /> Delete Selected
             </button>
@@ -640,6 +830,30 @@ const StatusBadge = ({ status }: { status: QueueStatus }) => {
     );
 }
 
+// Watch mode re-runs only fetch records added since the query's last uninterrupted run
+const WatchToggle = ({ item, defaultSourceId, onToggle }: { item: QueueItem, defaultSourceId?: string, onToggle: () => void }) => {
+    const lastRun = getWatchMark(item)?.lastRun;
+    const since = lastRun ? new Date(lastRun).toLocaleDateString() : null;
+    // Seeded rows page PubMed neighbours, which carry an Entrez date
+    const sourceIds = item.seedPmids?.length ? [] : (item.sources?.length ? item.sources : [defaultSourceId || '']);
+    const approximate = sourceIds.map(id => getSource(id)).filter((s): s is PaperSource => !!s?.approximateAddedSince).map(s => s.label);
+    const approximateNote = approximate.length ? `. Approximate for ${approximate.join(', ')}: no index date, so papers published before ${since || 'the last run'} but added since are missed` : '';
+    return (
+        <button
+            onClick={onToggle}
+            title={(item.watch
+                ? (since ? `Watch: only records added since ${since}` : 'Watch: no previous run yet, the next run is a full run')
+                : `Enable watch mode (new records only)${since ? `. Last run ${since}` : ''}`) + approximateNote}
+            className={clsx(
+                "mt-1 text-[9px] font-bold uppercase px-1.5 py-0.5 rounded border flex items-center gap-1 w-fit",
+                item.watch ? "bg-violet-50 text-violet-700 border-violet-200" : "text-slate-300 border-transparent hover:text-slate-500"
+            )}
+        >
+            <Eye size={10} /> {item.watch ? (since ? `Since ${since}` : 'Watch') : 'Watch'}{item.watch && approximate.length > 0 && ' ≈'}
+        </button>
+    );
+}
+
 const ListIcon = () => (
     <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
         <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path>
@@ -1,9 +1,14 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { AppConfig, SemanticSentence, NetworkLog } from '../types';
-import { GEMINI_MODELS } from '../constants';
-import { Save, RefreshCw, Cpu, Globe, Trash2, Plus, Upload, Zap, FastForward, BookOpen, FileText, Loader2, CheckCircle, XCircle, Server, Ban, Download, FileSpreadsheet } from 'lucide-react';
+import { AppConfig, AIProvider, SemanticSentence, NetworkLog, AbstractSectionCategory, OpenAIStructuredOutput } from '../types';
+import { GEMINI_MODELS, ABSTRACT_SECTION_CATEGORIES, DEFAULT_OPENAI_BASE_URL, DEFAULT_GEMINI_EMBEDDING_MODEL, DEFAULT_CORS_PROXY, LOCAL_CORS_PROXY, FULL_TEXT_SECTION_CATEGORIES, DEFAULT_FULL_TEXT_SECTIONS, DEFAULT_SCRAPER_PROFILES, DEFAULT_SCRAPE_CACHE_TTL_DAYS } from '../constants';
+import { Save, RefreshCw, Cpu, Globe, Trash2, Plus, Upload, Zap, FastForward, BookOpen, FileText, Loader2, CheckCircle, XCircle, Server, Ban, Download, FileSpreadsheet, Database, Network, HardDrive, Shield, Code } from 'lucide-react';
 import { OllamaService } from '../services/ollamaService';
+import { OpenAICompatibleService } from '../services/openaiService';
+import { embeddingProvider, embeddingModelKey, applyEmbeddingThresholds, defaultEmbeddingThresholds } from '../services/aiProviderService';
+import { replayService, ReplayMode } from '../services/replayService';
+import { parseScraperProfiles } from '../services/scraperService';
+import { countScrapeCache, clearScrapeCache } from '../services/scrapeCacheService';
 import { clsx } from 'clsx';
 
 interface SettingsPanelProps {
@@ -12,6 +17,12 @@ interface SettingsPanelProps {
   onLog?: (log: NetworkLog) => void;
 }
 
+const PROVIDER_OPTIONS: { id: AIProvider; label: string; Icon: React.ComponentType<{ size?: number }>; activeClass: string }[] = [
+    { id: 'gemini', label: 'Google Gemini', Icon: Globe, activeClass: "bg-blue-50 border-blue-500 text-blue-700 font-semibold" },
+    { id: 'ollama', label: 'Local Ollama', Icon: Cpu, activeClass: "bg-orange-50 border-orange-500 text-orange-700 font-semibold" },
+    { id: 'openai', label: 'OpenAI-Compatible', Icon: Server, activeClass: "bg-teal-50 border-teal-500 text-teal-700 font-semibold" }
+];
+
 interface SavedPreset {
     name: string;
     config: AppConfig;
@@ -29,18 +40,38 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onUpdate, onLog }
   const [newSentenceText, setNewSentenceText] = useState('');
   const [newSentenceTag, setNewSentenceTag] = useState('');
   const [newSentenceType, setNewSentenceType] = useState<'positive' | 'negative'>('positive');
+  const [newSentenceSection, setNewSentenceSection] = useState<AbstractSectionCategory | ''>('');
   
   // Grading Topics State
   const [gradingTopicsStr, setGradingTopicsStr] = useState(config.gradingTopics.join(', '));
   
   // Testing State
-  const [isTestingOllama, setIsTestingOllama] = useState(false);
+  const [isTestingConnection, setIsTestingConnection] = useState(false);
   const [testStatus, setTestStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [testMessage, setTestMessage] = useState('');
+  const [testProvider, setTestProvider] = useState<AIProvider>('ollama'); // Whose panel shows the result
   
   // Refs
   const testAbortController = useRef<AbortController | null>(null);
   const importInputRef = useRef<HTMLInputElement>(null);
+  const fixtureInputRef = useRef<HTMLInputElement>(null);
+
+  // Record/replay lives outside AppConfig: fixtures are session data, not settings
+  const [replayMode, setReplayMode] = useState<ReplayMode>(replayService.getMode());
+  const [replayCount, setReplayCount] = useState(replayService.count);
+  useEffect(() => replayService.subscribe(() => {
+      setReplayMode(replayService.getMode());
+      setReplayCount(replayService.count);
+  }), []);
+
+  // Scraper profiles are edited as raw JSON; only valid JSON reaches localConfig
+  const [profilesJson, setProfilesJson] = useState(JSON.stringify(config.scraperProfiles ?? DEFAULT_SCRAPER_PROFILES, null, 2));
+  const [profilesError, setProfilesError] = useState('');
+  const [scrapeCacheCount, setScrapeCacheCount] = useState<number | null>(null);
+
+  useEffect(() => {
+      countScrapeCache().then(setScrapeCacheCount);
+  }, []);
 
   // Load presets on mount
   useEffect(() => {
@@ -114,7 +145,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onUpdate, onLog }
           text: newSentenceText,
           customTag: newSentenceTag,
           positive: newSentenceType === 'positive',
-          enabled: true
+          enabled: true,
+          targetSection: newSentenceSection || undefined
       };
       setLocalConfig({
           ...localConfig,
@@ -122,13 +154,14 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onUpdate, onLog }
       });
       setNewSentenceText('');
       setNewSentenceTag('');
+      setNewSentenceSection('');
   };
 
   const handleExportRules = () => {
-      const headers = ["Text", "Tag", "Type", "Enabled"];
+      const headers = ["Text", "Tag", "Type", "Enabled", "Section"];
       const rows = localConfig.semanticSentences.map(s => {
           const text = s.text.replace(/"/g, '""');
-          return `"${text}",${s.customTag},${s.positive ? 'Positive' : 'Negative'},${s.enabled}`;
+          return `"${text}",${s.customTag},${s.positive ? 'Positive' : 'Negative'},${s.enabled},${s.targetSection || ''}`;
       });
       const csv = [headers.join(','), ...rows].join('\n');
       const blob = new Blob([csv], { type: 'text/csv' });
@@ -191,14 +224,16 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onUpdate, onLog }
 
               const cleanParts = parts.map(p => p.trim().replace(/^"|"$/g, '').replace(/""/g, '"'));
               
-              // Expecting: Text, Tag, Type, Enabled
+              // Expecting: Text, Tag, Type, Enabled, Section (optional)
               if (cleanParts.length >= 2) {
+                  const section = (cleanParts[4] || '').toUpperCase() as AbstractSectionCategory;
                   newRules.push({
                       id: `rule-${Date.now()}-${i}`,
                       text: cleanParts[0],
                       customTag: cleanParts[1] || 'Imported',
                       positive: (cleanParts[2]?.toLowerCase() || 'positive') !== 'negative',
-                      enabled: (cleanParts[3]?.toLowerCase() || 'true') !== 'false'
+                      enabled: (cleanParts[3]?.toLowerCase() || 'true') !== 'false',
+                      targetSection: ABSTRACT_SECTION_CATEGORIES.includes(section) ? section : undefined
                   });
               }
           }
@@ -217,6 +252,56 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onUpdate, onLog }
       if (importInputRef.current) importInputRef.current.value = '';
   };
 
+  const handleDownloadFixture = () => {
+      const blob = new Blob([JSON.stringify(replayService.exportFixture(), null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `replay_fixture_${Date.now()}.json`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+  };
+
+  const handleLoadFixture = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+
+      const reader = new FileReader();
+      reader.onload = (evt) => {
+          try {
+              replayService.loadFixture(JSON.parse(evt.target?.result as string));
+              replayService.setMode('replay');
+          } catch (err: any) {
+              alert(`Could not load fixture: ${err.message}`);
+          }
+      };
+      reader.readAsText(file);
+      if (fixtureInputRef.current) fixtureInputRef.current.value = '';
+  };
+
+  const handleProfilesChange = (val: string) => {
+      setProfilesJson(val);
+      try {
+          setLocalConfig({...localConfig, scraperProfiles: parseScraperProfiles(val)});
+          setProfilesError('');
+      } catch (e: any) {
+          setProfilesError(e.message);
+      }
+  };
+
+  const handleResetProfiles = () => {
+      setProfilesJson(JSON.stringify(DEFAULT_SCRAPER_PROFILES, null, 2));
+      setProfilesError('');
+      setLocalConfig({...localConfig, scraperProfiles: undefined});
+  };
+
+  const handleClearScrapeCache = async () => {
+      if (!confirm("Delete all cached scrape extracts? Pages will be fetched again on the next deep-scraping run.")) return;
+      await clearScrapeCache();
+      setScrapeCacheCount(await countScrapeCache());
+  };
+
   const handleGradingTopicsChange = (val: string) => {
       setGradingTopicsStr(val);
       const topics = val.split(',').map(s => s.trim()).filter(s => s.length > 0);
@@ -228,7 +313,8 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onUpdate, onLog }
     testAbortController.current = new AbortController();
     
     console.log("Starting Ollama Test...");
-    setIsTestingOllama(true);
+    setIsTestingConnection(true);
+    setTestProvider('ollama');
     setTestStatus('idle');
     setTestMessage('');
 
@@ -263,7 +349,43 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onUpdate, onLog }
         setTestStatus('error');
         setTestMessage(e.message || "Connection failed");
     } finally {
-        setIsTestingOllama(false);
+        setIsTestingConnection(false);
+        testAbortController.current = null;
+    }
+  };
+
+  const handleTestOpenAI = async () => {
+    if (testAbortController.current) testAbortController.current.abort();
+    testAbortController.current = new AbortController();
+
+    setIsTestingConnection(true);
+    setTestProvider('openai');
+    setTestStatus('idle');
+    setTestMessage('');
+
+    try {
+        const service = new OpenAICompatibleService(
+            localConfig.openaiBaseUrl || DEFAULT_OPENAI_BASE_URL,
+            localConfig.openaiApiKey || '',
+            localConfig.openaiModel || '',
+            localConfig.openaiEmbeddingModel || '',
+            localConfig.openaiStructuredOutput,
+            onLog
+        );
+        const models = await service.listModels(testAbortController.current.signal);
+
+        // Some servers (llama.cpp) list only the loaded model under its file name, so this is advisory
+        let msg = `Connected! Found ${models.length} models.`;
+        if (localConfig.openaiModel && !models.includes(localConfig.openaiModel)) msg += ` Warning: '${localConfig.openaiModel}' not listed.`;
+        if (localConfig.openaiEmbeddingModel && !models.includes(localConfig.openaiEmbeddingModel)) msg += ` Warning: '${localConfig.openaiEmbeddingModel}' not listed.`;
+
+        setTestStatus('success');
+        setTestMessage(msg);
+    } catch (e: any) {
+        setTestStatus('error');
+        setTestMessage(e.name === 'AbortError' ? "Test Cancelled by user." : (e.message || "Connection failed"));
+    } finally {
+        setIsTestingConnection(false);
         testAbortController.current = null;
     }
   };
@@ -274,8 +396,28 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onUpdate, onLog }
       }
   };
 
+  // Provider settings are shown for whichever role (grading or embedding) uses them
+  const usesProvider = (provider: AIProvider) => localConfig.provider === provider || embeddingProvider(localConfig) === provider;
+
+  const renderProviderTabs = (value: AIProvider, onSelect: (provider: AIProvider) => void) => (
+      <div className="flex gap-4">
+          {PROVIDER_OPTIONS.map(({ id, label, Icon, activeClass }) => (
+              <button
+                  key={id}
+                  onClick={() => onSelect(id)}
+                  className={clsx(
+                      "flex-1 p-3 rounded-lg border flex items-center justify-center gap-2 transition-all",
+                      value === id ? activeClass : "bg-white border-slate-200 text-slate-600 hover:bg-slate-50"
+                  )}
+              >
+                  <Icon size={18} /> {label}
+              </button>
+          ))}
+      </div>
+  );
+
   const handleSave = () => {
-    onUpdate(localConfig);
+    onUpdate(applyEmbeddingThresholds(config, localConfig));
   };
 
   return (
@@ -322,36 +464,19 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onUpdate, onLog }
       </div>
 
       {/* --- PROVIDER --- */}
-      <div>
-        <label className="block text-sm font-medium text-slate-700 mb-2">AI Provider</label>
-        <div className="flex gap-4">
-            <button
-                onClick={() => setLocalConfig({...localConfig, provider: 'gemini'})}
-                className={clsx(
-                    "flex-1 p-3 rounded-lg border flex items-center justify-center gap-2 transition-all",
-                    localConfig.provider === 'gemini' 
-                        ? "bg-blue-50 border-blue-500 text-blue-700 font-semibold" 
-                        : "bg-white border-slate-200 text-slate-600 hover:bg-slate-50"
-                )}
-            >
-                <Globe size={18} /> Google Gemini
-            </button>
-            <button
-                onClick={() => setLocalConfig({...localConfig, provider: 'ollama'})}
-                className={clsx(
-                    "flex-1 p-3 rounded-lg border flex items-center justify-center gap-2 transition-all",
-                    localConfig.provider === 'ollama' 
-                        ? "bg-orange-50 border-orange-500 text-orange-700 font-semibold" 
-                        : "bg-white border-slate-200 text-slate-600 hover:bg-slate-50"
-                )}
-            >
-                <Cpu size={18} /> Local Ollama
-            </button>
+      <div className="space-y-3">
+        <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Grading Provider <span className="text-slate-400 font-normal">(analysis & abstracts)</span></label>
+            {renderProviderTabs(localConfig.provider, provider => setLocalConfig({...localConfig, provider}))}
+        </div>
+        <div>
+            <label className="block text-sm font-medium text-slate-700 mb-2">Embedding Provider <span className="text-slate-400 font-normal">(vector prefilter)</span></label>
+            {renderProviderTabs(embeddingProvider(localConfig), provider => setLocalConfig({...localConfig, embeddingProvider: provider}))}
+            <p className="text-xs text-slate-500 mt-1">E.g. local <code className="font-mono">nomic-embed-text</code> prefiltering in front of Gemini grading. Vector thresholds are kept per embedding model.</p>
         </div>
       </div>
-
       {/* API Key / URL Config */}
-      {localConfig.provider === 'gemini' ? (
+      {usesProvider('gemini') && (
         <div className="animate-fadeIn space-y-4">
             <div>
                 <label className="block text-sm font-medium text-slate-700 mb-1">Gemini API Key</label>
@@ -380,8 +505,19 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onUpdate, onLog }
                     {GEMINI_MODELS.find(m => m.value === localConfig.geminiModel)?.desc}
                 </p>
             </div>
+            <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Gemini Embedding Model</label>
+                <input
+                    type="text"
+                    value={localConfig.geminiEmbeddingModel || ''}
+                    onChange={(e) => setLocalConfig({...localConfig, geminiEmbeddingModel: e.target.value})}
+                    className="w-full p-2 border border-slate-300 rounded focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm"
+                    placeholder={DEFAULT_GEMINI_EMBEDDING_MODEL}
+                />
+            </div>
         </div>
-      ) : (
+      )}
+      {usesProvider('ollama') && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 animate-fadeIn">
             <div className="md:col-span-2">
                 <label className="block text-sm font-medium text-slate-700 mb-1">Ollama Base URL</label>
@@ -392,7 +528,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onUpdate, onLog }
                         onChange={(e) => setLocalConfig({...localConfig, ollamaBaseUrl: e.target.value})}
                         className="flex-1 p-2 border border-slate-300 rounded focus:ring-2 focus:ring-orange-500 outline-none"
                     />
-                    {isTestingOllama ? (
+                    {isTestingConnection && testProvider === 'ollama' ? (
                         <button 
                             onClick={handleStopTest}
                             className="px-3 py-2 bg-red-100 border border-red-300 rounded text-red-700 font-bold text-xs hover:bg-red-200 min-w-[80px] flex items-center justify-center gap-2"
@@ -409,7 +545,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onUpdate, onLog }
                     )}
                 </div>
                 {/* Status Message */}
-                {testStatus !== 'idle' && (
+                {testStatus !== 'idle' && testProvider === 'ollama' && (
                     <div className={clsx("mt-2 text-xs flex items-center gap-1 font-medium", testStatus === 'success' ? "text-green-600" : "text-red-600")}>
                         {testStatus === 'success' ? <CheckCircle size={14} /> : <XCircle size={14} />}
                         {testMessage}
@@ -436,6 +572,86 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onUpdate, onLog }
             </div>
         </div>
       )}
+      {usesProvider('openai') && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 animate-fadeIn">
+            <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-slate-700 mb-1">OpenAI-Compatible Base URL</label>
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={localConfig.openaiBaseUrl ?? DEFAULT_OPENAI_BASE_URL}
+                        onChange={(e) => setLocalConfig({...localConfig, openaiBaseUrl: e.target.value})}
+                        className="flex-1 p-2 border border-slate-300 rounded focus:ring-2 focus:ring-teal-500 outline-none font-mono text-sm"
+                        placeholder={DEFAULT_OPENAI_BASE_URL}
+                    />
+                    {isTestingConnection && testProvider === 'openai' ? (
+                        <button
+                            onClick={handleStopTest}
+                            className="px-3 py-2 bg-red-100 border border-red-300 rounded text-red-700 font-bold text-xs hover:bg-red-200 min-w-[80px] flex items-center justify-center gap-2"
+                        >
+                            <Ban size={14} /> Stop
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleTestOpenAI}
+                            className="px-3 py-2 bg-slate-100 border border-slate-300 rounded text-slate-700 font-bold text-xs hover:bg-slate-200 min-w-[80px] flex items-center justify-center gap-2"
+                        >
+                            Test
+                        </button>
+                    )}
+                </div>
+                {testStatus !== 'idle' && testProvider === 'openai' && (
+                    <div className={clsx("mt-2 text-xs flex items-center gap-1 font-medium", testStatus === 'success' ? "text-green-600" : "text-red-600")}>
+                        {testStatus === 'success' ? <CheckCircle size={14} /> : <XCircle size={14} />}
+                        {testMessage}
+                    </div>
+                )}
+                <p className="text-xs text-slate-500 mt-1">Include the <code className="font-mono">/v1</code> prefix. LM Studio :1234, vLLM :8000, llama.cpp server :8080.</p>
+            </div>
+            <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-slate-700 mb-1">API Key <span className="text-slate-400 font-normal">(optional for local servers)</span></label>
+                <input
+                    type="password"
+                    value={localConfig.openaiApiKey || ''}
+                    onChange={(e) => setLocalConfig({...localConfig, openaiApiKey: e.target.value})}
+                    className="w-full p-2 border border-slate-300 rounded focus:ring-2 focus:ring-teal-500 outline-none"
+                    placeholder="sk-..."
+                />
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Chat Model</label>
+                <input
+                    type="text"
+                    value={localConfig.openaiModel || ''}
+                    onChange={(e) => setLocalConfig({...localConfig, openaiModel: e.target.value})}
+                    className="w-full p-2 border border-slate-300 rounded focus:ring-2 focus:ring-teal-500 outline-none"
+                    placeholder="qwen2.5-7b-instruct"
+                />
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Embedding Model</label>
+                <input
+                    type="text"
+                    value={localConfig.openaiEmbeddingModel || ''}
+                    onChange={(e) => setLocalConfig({...localConfig, openaiEmbeddingModel: e.target.value})}
+                    className="w-full p-2 border border-slate-300 rounded focus:ring-2 focus:ring-teal-500 outline-none"
+                    placeholder="text-embedding-nomic-embed-text-v1.5"
+                />
+            </div>
+            <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-slate-700 mb-1">Structured Output</label>
+                <select
+                    value={localConfig.openaiStructuredOutput || 'json_schema'}
+                    onChange={(e) => setLocalConfig({...localConfig, openaiStructuredOutput: e.target.value as OpenAIStructuredOutput})}
+                    className="w-full p-2 border border-slate-300 rounded focus:ring-2 focus:ring-teal-500 outline-none bg-white text-sm"
+                >
+                    <option value="json_schema">JSON mode (response_format json_schema)</option>
+                    <option value="tool_call">Tool call (forced function call)</option>
+                </select>
+                <p className="text-xs text-slate-500 mt-1">Switch to tool calls if the server rejects <code className="font-mono">response_format</code>.</p>
+            </div>
+        </div>
+      )}
 
       <hr className="border-slate-200" />
 
@@ -522,6 +738,312 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onUpdate, onLog }
 
       <hr className="border-slate-200" />
 
+      {/* --- NCBI E-UTILITIES --- */}
+      <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
+         <h3 className="text-sm font-semibold text-slate-700 mb-3 uppercase tracking-wide flex items-center gap-2">
+            <Database size={16} className="text-blue-600" /> NCBI / PubMed
+         </h3>
+         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+             <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">NCBI API Key (Optional)</label>
+                <input 
+                    type="password" 
+                    value={localConfig.ncbiApiKey || ''}
+                    onChange={(e) => setLocalConfig({...localConfig, ncbiApiKey: e.target.value})}
+                    className="w-full p-2 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="Key..."
+                />
+             </div>
+             <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Contact Email</label>
+                <input 
+                    type="email" 
+                    value={localConfig.ncbiEmail || ''}
+                    onChange={(e) => setLocalConfig({...localConfig, ncbiEmail: e.target.value})}
+                    className="w-full p-2 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="you@example.org"
+                />
+             </div>
+         </div>
+         <p className="text-[10px] text-slate-500 mt-2">
+             All PubMed requests share one rate limit: <span className="font-mono">{localConfig.ncbiApiKey ? '10' : '3'} req/s</span>{localConfig.ncbiApiKey ? '' : ' (10 req/s with a key)'}. 429 responses appear in the Network sidebar.
+         </p>
+      </div>
+
+      {/* --- SEMANTIC SCHOLAR --- */}
+      <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
+         <div className="flex justify-between items-start mb-3">
+             <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide flex items-center gap-2">
+                <Globe size={16} className="text-indigo-600" /> Semantic Scholar
+             </h3>
+             <label className="flex items-center gap-2 cursor-pointer bg-white px-2 py-1 rounded border border-slate-200 shadow-sm" title="Bulk search pages past 1,000 results with continuation tokens, but results are not relevance-ranked">
+                <input 
+                    type="checkbox"
+                    checked={!!localConfig.semanticScholarBulk}
+                    onChange={(e) => setLocalConfig({...localConfig, semanticScholarBulk: e.target.checked})}
+                    className="text-indigo-600 focus:ring-indigo-500 rounded"
+                />
+                <span className="text-xs font-bold text-slate-700">Bulk Search</span>
+             </label>
+         </div>
+         <div>
+            <label className="block text-xs font-medium text-slate-600 mb-1">S2 API Key (Optional)</label>
+            <input 
+                type="password" 
+                value={localConfig.semanticScholarApiKey || ''}
+                onChange={(e) => setLocalConfig({...localConfig, semanticScholarApiKey: e.target.value})}
+                className="w-full p-2 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                placeholder="Key..."
+            />
+         </div>
+         <p className="text-[10px] text-slate-500 mt-2">
+             {localConfig.semanticScholarBulk ? 'Bulk: whole result set via continuation tokens, unranked.' : 'Relevance: ranked, limited to the first 1,000 results.'} 429s are retried with backoff; a persistent limit is reported in the Cycle Complete block.
+         </p>
+      </div>
+
+      <hr className="border-slate-200" />
+
+      {/* --- SCRAPER PROFILES & CACHE --- */}
+      <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
+         <div className="flex justify-between items-start mb-3">
+             <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide flex items-center gap-2">
+                <Code size={16} className="text-slate-600" /> Scraper Profiles
+             </h3>
+             <button onClick={handleResetProfiles} className="text-[10px] font-bold text-slate-500 hover:underline">Reset to defaults</button>
+         </div>
+         <textarea 
+            value={profilesJson}
+            onChange={(e) => handleProfilesChange(e.target.value)}
+            className={clsx("w-full p-3 text-[11px] font-mono border rounded-lg focus:ring-2 focus:ring-blue-500 outline-none", profilesError ? "border-red-400" : "border-slate-300")}
+            rows={10}
+            spellCheck={false}
+         />
+         {profilesError && <p className="text-[10px] text-red-600 mt-1">{profilesError} (last valid profiles are kept)</p>}
+         <p className="text-[10px] text-slate-500 mt-1">
+             Per-domain rules: <code className="font-mono">bodySelectors</code> (first match wins), <code className="font-mono">excludeSelectors</code>, <code className="font-mono">stopHeadings</code>. Sites without a profile, or whose profile finds no body, use the density heuristic.
+         </p>
+
+         <div className="mt-3 pt-3 border-t border-slate-200 flex items-center justify-between gap-3">
+             <div className="flex items-center gap-3">
+                <label className="text-xs font-medium text-slate-600">Cache TTL (days)</label>
+                <input 
+                    type="number" 
+                    min={0}
+                    max={365}
+                    value={localConfig.scrapeCacheTtlDays ?? DEFAULT_SCRAPE_CACHE_TTL_DAYS}
+                    onChange={(e) => setLocalConfig({...localConfig, scrapeCacheTtlDays: Math.max(0, parseInt(e.target.value) || 0)})}
+                    className="w-20 p-2 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+                <span className="text-[10px] font-mono text-slate-500">{scrapeCacheCount ?? '…'} entries</span>
+             </div>
+             <button
+                onClick={handleClearScrapeCache}
+                className="flex items-center gap-1 px-3 py-1.5 bg-white border border-slate-200 text-red-600 rounded text-xs font-bold hover:bg-red-50"
+             >
+                <Trash2 size={12} /> Clear Cache
+             </button>
+         </div>
+         <p className="text-[10px] text-slate-500 mt-1">
+             Extracts are cached in the browser by URL and DOI, so re-grading does not re-fetch publisher pages. 0 = no cache.
+         </p>
+      </div>
+
+      <hr className="border-slate-200" />
+
+      {/* --- SCRAPER CORS PROXY --- */}
+      <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
+         <div className="flex justify-between items-start mb-3">
+             <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide flex items-center gap-2">
+                <Shield size={16} className="text-purple-600" /> Scraper CORS Proxy
+             </h3>
+             <label className="flex items-center gap-2 cursor-pointer bg-white px-2 py-1 rounded border border-slate-200 shadow-sm">
+                <input 
+                    type="checkbox"
+                    checked={localConfig.corsProxyEnabled ?? true}
+                    onChange={(e) => setLocalConfig({...localConfig, corsProxyEnabled: e.target.checked})}
+                    className="text-purple-600 focus:ring-purple-500 rounded"
+                />
+                <span className="text-xs font-bold text-slate-700">Enabled</span>
+             </label>
+         </div>
+         <div className={clsx("grid grid-cols-1 gap-3", !(localConfig.corsProxyEnabled ?? true) && "opacity-50 pointer-events-none")}>
+             <div>
+                <div className="flex justify-between items-center mb-1">
+                    <label className="block text-xs font-medium text-slate-600">URL Template</label>
+                    <div className="flex gap-2">
+                        <button onClick={() => setLocalConfig({...localConfig, corsProxyTemplate: LOCAL_CORS_PROXY})} className="text-[10px] font-bold text-purple-600 hover:underline">Local</button>
+                        <button onClick={() => setLocalConfig({...localConfig, corsProxyTemplate: DEFAULT_CORS_PROXY})} className="text-[10px] font-bold text-slate-500 hover:underline">Public</button>
+                    </div>
+                </div>
+                <input 
+                    type="text" 
+                    value={localConfig.corsProxyTemplate ?? DEFAULT_CORS_PROXY}
+                    onChange={(e) => setLocalConfig({...localConfig, corsProxyTemplate: e.target.value})}
+                    className="w-full p-2 border border-slate-300 rounded text-sm font-mono focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder={LOCAL_CORS_PROXY}
+                />
+             </div>
+             <div>
+                <label className="block text-xs font-medium text-slate-600 mb-1">Auth Header (Optional)</label>
+                <input 
+                    type="password" 
+                    value={localConfig.corsProxyAuthHeader || ''}
+                    onChange={(e) => setLocalConfig({...localConfig, corsProxyAuthHeader: e.target.value})}
+                    className="w-full p-2 border border-slate-300 rounded text-sm font-mono focus:ring-2 focus:ring-blue-500 outline-none"
+                    placeholder="X-Proxy-Token: secret"
+                />
+             </div>
+         </div>
+         <div className="mt-3 pt-3 border-t border-slate-200">
+            <label className="block text-xs font-medium text-slate-600 mb-1">Unpaywall Email (Open-Access Resolver)</label>
+            <input 
+                type="email" 
+                value={localConfig.unpaywallEmail || ''}
+                onChange={(e) => setLocalConfig({...localConfig, unpaywallEmail: e.target.value})}
+                className="w-full p-2 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                placeholder={localConfig.ncbiEmail || 'you@institution.org'}
+            />
+            <p className="text-[10px] text-slate-500 mt-1">Before scraping, each DOI is looked up on Unpaywall (PMC is used when a PMCID exists) and the free copy is scraped instead. Empty = the NCBI email is used; with neither, only PMC copies are found.</p>
+         </div>
+         <p className="text-[10px] text-slate-500 mt-2">
+             Used when a direct fetch is blocked by CORS. <code className="font-mono">{'{url}'}</code> is replaced with the encoded page URL. The public proxy sees every URL you research; run <code className="font-mono">npm run proxy</code> to host one locally. Disabled = direct fetches only.
+         </p>
+      </div>
+
+      <hr className="border-slate-200" />
+
+      {/* --- FULL TEXT FOR GRADING --- */}
+      <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
+         <h3 className="text-sm font-semibold text-slate-700 mb-3 uppercase tracking-wide flex items-center gap-2">
+            <FileText size={16} className="text-indigo-600" /> Full Text for Grading
+         </h3>
+         <div className="flex flex-wrap gap-1.5 mb-3">
+             {FULL_TEXT_SECTION_CATEGORIES.map(cat => {
+                 const selected = (localConfig.fullTextSections || DEFAULT_FULL_TEXT_SECTIONS).includes(cat);
+                 return (
+                     <button
+                        key={cat}
+                        onClick={() => {
+                            const current = localConfig.fullTextSections || DEFAULT_FULL_TEXT_SECTIONS;
+                            setLocalConfig({...localConfig, fullTextSections: selected ? current.filter(c => c !== cat) : FULL_TEXT_SECTION_CATEGORIES.filter(c => c === cat || current.includes(c))});
+                        }}
+                        className={clsx(
+                            "px-2 py-1 rounded text-[10px] font-bold border",
+                            selected ? "bg-indigo-600 text-white border-indigo-600" : "bg-white text-slate-500 border-slate-200 hover:bg-slate-100"
+                        )}
+                     >
+                        {cat}
+                     </button>
+                 );
+             })}
+         </div>
+         <div className="flex items-center gap-3">
+            <label className="text-xs font-medium text-slate-600">Character budget</label>
+            <input 
+                type="number" 
+                min={1000}
+                max={100000}
+                step={1000}
+                value={localConfig.fullTextCharBudget ?? 10000}
+                onChange={(e) => setLocalConfig({...localConfig, fullTextCharBudget: parseInt(e.target.value) || 10000})}
+                className="w-28 p-2 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+         </div>
+         <p className="text-[10px] text-slate-500 mt-2">
+             With deep scraping on, the scraper maps section headings (HTML, PMC XML and PDF). Only the selected sections are added to the analysis prompt, sharing the budget equally. When no headings are detected, or none are selected, the start of the text is used.
+         </p>
+      </div>
+
+      <hr className="border-slate-200" />
+
+      {/* --- CITATION SNOWBALLING --- */}
+      <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
+         <div className="flex justify-between items-start mb-3">
+             <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide flex items-center gap-2">
+                <Network size={16} className="text-teal-600" /> Citation Snowballing
+             </h3>
+             <label className="flex items-center gap-2 cursor-pointer bg-white px-2 py-1 rounded border border-slate-200 shadow-sm">
+                <input 
+                    type="checkbox"
+                    checked={!!localConfig.snowballEnabled}
+                    onChange={(e) => setLocalConfig({...localConfig, snowballEnabled: e.target.checked})}
+                    className="text-teal-600 focus:ring-teal-500 rounded"
+                />
+                <span className="text-xs font-bold text-slate-700">Enabled</span>
+             </label>
+         </div>
+         <div className="flex items-center gap-3">
+            <label className="text-xs font-medium text-slate-600">Max per seed (each direction)</label>
+            <input 
+                type="number" 
+                min={1}
+                max={1000}
+                value={localConfig.snowballMaxPerSeed ?? 50}
+                onChange={(e) => setLocalConfig({...localConfig, snowballMaxPerSeed: parseInt(e.target.value) || 50})}
+                className="w-24 p-2 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+         </div>
+         <p className="text-[10px] text-slate-500 mt-2">
+             After each query, the references and citing papers of its AI-qualified results run through the same pipeline as a separate snowball cycle.
+         </p>
+      </div>
+
+      <hr className="border-slate-200" />
+
+      {/* --- OFFLINE RECORD / REPLAY --- */}
+      <div className="bg-slate-50 p-4 rounded-lg border border-slate-200">
+         <div className="flex justify-between items-start mb-3">
+             <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide flex items-center gap-2">
+                <HardDrive size={16} className="text-slate-600" /> Offline Record / Replay
+             </h3>
+             <span className="text-[10px] font-mono text-slate-500">{replayCount} exchanges</span>
+         </div>
+         <div className="flex bg-white rounded-md border border-slate-200 p-0.5 w-fit mb-3">
+             {(['off', 'record', 'replay'] as ReplayMode[]).map(m => (
+                 <button
+                    key={m}
+                    onClick={() => replayService.setMode(m)}
+                    className={clsx(
+                        "px-3 py-1 text-xs font-bold rounded uppercase",
+                        replayMode === m
+                            ? (m === 'record' ? "bg-red-600 text-white" : m === 'replay' ? "bg-blue-600 text-white" : "bg-slate-700 text-white")
+                            : "text-slate-500 hover:bg-slate-100"
+                    )}
+                 >
+                    {m}
+                 </button>
+             ))}
+         </div>
+         <div className="flex gap-2">
+             <button
+                onClick={handleDownloadFixture}
+                disabled={replayCount === 0}
+                className="flex items-center gap-1 px-3 py-1.5 bg-white border border-slate-200 text-slate-600 rounded text-xs font-bold hover:bg-slate-50 disabled:opacity-50"
+             >
+                <Download size={12} /> Download Fixture
+             </button>
+             <button
+                onClick={() => fixtureInputRef.current?.click()}
+                className="flex items-center gap-1 px-3 py-1.5 bg-white border border-slate-200 text-slate-600 rounded text-xs font-bold hover:bg-slate-50"
+             >
+                <Upload size={12} /> Load Fixture
+             </button>
+             <input type="file" ref={fixtureInputRef} onChange={handleLoadFixture} accept=".json" className="hidden" />
+             <button
+                onClick={() => replayService.clear()}
+                disabled={replayCount === 0}
+                className="flex items-center gap-1 px-3 py-1.5 bg-white border border-slate-200 text-red-600 rounded text-xs font-bold hover:bg-red-50 disabled:opacity-50"
+             >
+                <Trash2 size={12} /> Clear
+             </button>
+         </div>
+         <p className="text-[10px] text-slate-500 mt-2">
+             Record captures every HTTP exchange (NCBI, Semantic Scholar, Ollama, Gemini, Zotero, scraper) into a fixture file; credentials are stripped. Replay serves the fixture back in recorded order and fails any request it does not contain, so a cycle runs fully offline. Open the app with <code className="font-mono">?replay=/fixtures/name.json</code> to start in replay mode.
+         </p>
+      </div>
+
+      <hr className="border-slate-200" />
+
       {/* --- SMART SPEED UP & FAIL FAST --- */}
       <div className="bg-gradient-to-r from-slate-50 to-white p-4 rounded-lg border border-slate-200">
          <h3 className="text-sm font-semibold text-slate-700 mb-3 uppercase tracking-wide flex items-center gap-2">
@@ -602,6 +1124,17 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onUpdate, onLog }
 
       {/* --- SCORING THRESHOLDS --- */}
       <h3 className="text-sm font-semibold text-slate-700 uppercase tracking-wide">Scoring & Filtering Logic</h3>
+      <div className="flex items-center justify-between gap-2 -mt-2">
+          <p className="text-xs text-slate-500">Vector and composite thresholds apply to <code className="font-mono">{embeddingModelKey(localConfig)}</code> and are restored when you switch back to it.</p>
+          {defaultEmbeddingThresholds(embeddingModelKey(localConfig)) && (
+              <button
+                  onClick={() => setLocalConfig({...localConfig, ...defaultEmbeddingThresholds(embeddingModelKey(localConfig))})}
+                  className="text-xs text-blue-600 hover:text-blue-800 flex items-center gap-1 flex-shrink-0"
+              >
+                  <RefreshCw size={12} /> Model defaults
+              </button>
+          )}
+      </div>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div>
             <div className="flex justify-between mb-1">
@@ -725,6 +1258,20 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onUpdate, onLog }
                                 <option value="positive">Positive</option>
                                 <option value="negative">Negative</option>
                             </select>
+
+                            {/* Section Target Select */}
+                            <select 
+                                value={s.targetSection || ''}
+                                onChange={(e) => handleSentenceUpdate(s.id, 'targetSection', e.target.value || undefined)}
+                                className={clsx(
+                                    "text-[10px] font-bold uppercase px-2 py-1 rounded border outline-none cursor-pointer",
+                                    s.targetSection ? "bg-indigo-50 text-indigo-700 border-indigo-200" : "bg-slate-50 text-slate-500 border-slate-200"
+                                )}
+                                title="Score against one section of structured abstracts only"
+                            >
+                                <option value="">Whole Abstract</option>
+                                {ABSTRACT_SECTION_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                            </select>
                         </div>
                     </div>
 
@@ -771,6 +1318,15 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onUpdate, onLog }
                         <option value="positive">Requirement (Positive)</option>
                         <option value="negative">Penalty (Negative)</option>
                     </select>
+                    <select 
+                        value={newSentenceSection}
+                        onChange={(e: any) => setNewSentenceSection(e.target.value)}
+                        className="p-2 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+                        title="Score against one section of structured abstracts only"
+                    >
+                        <option value="">Whole Abstract</option>
+                        {ABSTRACT_SECTION_CATEGORIES.map(c => <option key={c} value={c}>{c} only</option>)}
+                    </select>
                     <button 
                         onClick={handleAddSentence}
                         disabled={!newSentenceText || !newSentenceTag}
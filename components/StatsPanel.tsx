@@ -1,8 +1,9 @@
 
 import React from 'react';
-import { CycleStats } from '../types';
+import { CycleStats, ScrapeFailure } from '../types';
+import { SCRAPE_FAILURE_LABELS } from '../constants';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, PieChart, Pie } from 'recharts';
-import { Zap, Activity, Filter, CheckCircle } from 'lucide-react';
+import { Zap, Activity, Filter, CheckCircle, FileText } from 'lucide-react';
 
 interface StatsPanelProps {
   stats: CycleStats;
@@ -20,6 +21,10 @@ const StatsPanel: React.FC<StatsPanelProps> = ({ stats }) => {
     { name: 'Saved', value: stats.energySaved, color: '#4ade80' },
   ];
 
+  const coverage = stats.scrapeAttempted > 0 ? Math.round(stats.scrapeSucceeded / stats.scrapeAttempted * 100) : 0;
+  const strategies = Object.entries<number>(stats.scrapeStrategies).sort((a, b) => b[1] - a[1]);
+  const failures = (Object.entries(stats.scrapeFailures) as [ScrapeFailure, number][]).sort((a, b) => b[1] - a[1]);
+
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
       
@@ -84,6 +89,28 @@ const StatsPanel: React.FC<StatsPanelProps> = ({ stats }) => {
             {stats.energySaved} calls avoided
         </div>
       </div>
+
+      {/* Full-text coverage (Deep Scraping only) */}
+      {stats.scrapeAttempted > 0 && (
+        <div className="md:col-span-2 lg:col-span-4 bg-white p-4 rounded-xl shadow-sm border border-slate-200 flex flex-wrap items-center gap-x-6 gap-y-2">
+          <div className="flex items-center gap-2 text-slate-500">
+              <FileText size={18} />
+              <span className="text-sm font-medium">Full-Text Coverage</span>
+          </div>
+          <div className="text-xl font-bold text-teal-600">
+              {stats.scrapeSucceeded}/{stats.scrapeAttempted} <span className="text-xs font-mono text-slate-400">({coverage}%)</span>
+          </div>
+          <div className="text-xs text-slate-400">{stats.scrapeAttempted - stats.scrapeSucceeded} graded on abstract only · {stats.scrapeViaProxy} via proxy</div>
+          <div className="flex flex-wrap gap-1">
+              {strategies.map(([strategy, count]) => (
+                  <span key={strategy} className="text-[10px] font-mono text-teal-700 bg-teal-50 border border-teal-200 px-1.5 rounded">{strategy}: {count}</span>
+              ))}
+              {failures.map(([failure, count]) => (
+                  <span key={failure} className="text-[10px] font-mono text-slate-500 bg-slate-50 border border-slate-200 px-1.5 rounded">{SCRAPE_FAILURE_LABELS[failure]}: {count}</span>
+              ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
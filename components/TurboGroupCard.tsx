@@ -65,7 +65,7 @@ const TurboGroupCard: React.FC<TurboGroupCardProps> = ({ data }) => {
                           <div className="flex-1 min-w-0">
                               <div className="text-xs font-bold text-slate-700 truncate">{item.paper.title}</div>
                               <div className="text-[10px] text-slate-400 font-mono mt-0.5 flex gap-3">
-                                  <span>{item.paper.authors[0]} ({item.paper.year})</span>
+                                  <span>{item.paper.authors[0]} ({item.paper.year || 'n.d.'})</span>
                                   <span>Vec: {item.result.vectorScore.toFixed(2)}</span>
                                   <span>Comp: {item.result.compositeScore.toFixed(2)}</span>
                               </div>
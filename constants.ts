@@ -1,5 +1,5 @@
 
-import { SemanticSentence } from './types';
+import { SemanticSentence, AbstractSectionCategory, FullTextSectionCategory, ScraperProfile, ScrapeFailure, EmbeddingThresholds } from './types';
 
 export const GEMINI_MODELS = [
   { value: "gemini-2.0-flash-lite-preview-02-05", label: "gemini-2.0-flash-lite-preview-02-05", desc: "Newest Lite model. Fast and cost-effective." },
@@ -18,6 +18,112 @@ export const GEMINI_MODELS = [
   { value: "models/gemma-2-2b-it", label: "gemma-2-2b-it (Open Model)", desc: "Tiny open model. Very fast, lower quality." },
 ];
 
+// Structured-abstract sections a semantic rule can target
+export const ABSTRACT_SECTION_CATEGORIES: AbstractSectionCategory[] = ['BACKGROUND', 'OBJECTIVE', 'METHODS', 'RESULTS', 'CONCLUSIONS'];
+
+// Full-text sections the grader can be restricted to
+export const FULL_TEXT_SECTION_CATEGORIES: FullTextSectionCategory[] = ['INTRODUCTION', 'METHODS', 'RESULTS', 'DISCUSSION', 'CONCLUSIONS'];
+export const DEFAULT_FULL_TEXT_SECTIONS: FullTextSectionCategory[] = ['METHODS', 'RESULTS'];
+
+// Upper bound on one extracted body, well above a full article: the grader's
+// char budget is applied per section by buildFullTextContext, not here
+export const MAX_FULL_TEXT_CHARS = 250000;
+
+// Publication types offered as query filters (PubMed [pt] vocabulary)
+export const PUBLICATION_TYPES = [
+  'Journal Article', 'Review', 'Systematic Review', 'Meta-Analysis', 'Clinical Trial',
+  'Randomized Controlled Trial', 'Case Reports', 'Comment', 'Editorial', 'Letter', 'News'
+];
+
+// Query filter languages: MEDLINE code -> ISO 639-1 (OpenAlex)
+export const FILTER_LANGUAGES = [
+  { code: 'eng', iso1: 'en', label: 'English' },
+  { code: 'fre', iso1: 'fr', label: 'French' },
+  { code: 'ger', iso1: 'de', label: 'German' },
+  { code: 'spa', iso1: 'es', label: 'Spanish' },
+  { code: 'por', iso1: 'pt', label: 'Portuguese' },
+  { code: 'ita', iso1: 'it', label: 'Italian' },
+  { code: 'chi', iso1: 'zh', label: 'Chinese' },
+  { code: 'jpn', iso1: 'ja', label: 'Japanese' },
+  { code: 'rus', iso1: 'ru', label: 'Russian' }
+];
+
+// Gemini embedding model used when Settings leaves the field empty
+export const DEFAULT_GEMINI_EMBEDDING_MODEL = 'text-embedding-004';
+
+// Starting thresholds per embedding model family, matched as a substring of the model name
+// (LM Studio serves nomic as "text-embedding-nomic-embed-text-v1.5"). Each model spreads
+// cosine similarity differently: OpenAI's v3 models rarely exceed 0.6 even for close matches.
+export const EMBEDDING_THRESHOLD_DEFAULTS: { match: string; thresholds: EmbeddingThresholds }[] = [
+  { match: 'nomic-embed-text', thresholds: { minVectorScore: 0.59, minCompositeScore: 0.60 } },
+  { match: 'text-embedding-004', thresholds: { minVectorScore: 0.65, minCompositeScore: 0.55 } },
+  { match: 'gemini-embedding', thresholds: { minVectorScore: 0.70, minCompositeScore: 0.60 } },
+  { match: 'mxbai-embed-large', thresholds: { minVectorScore: 0.60, minCompositeScore: 0.55 } },
+  { match: 'bge-m3', thresholds: { minVectorScore: 0.55, minCompositeScore: 0.50 } },
+  { match: 'all-minilm', thresholds: { minVectorScore: 0.40, minCompositeScore: 0.35 } },
+  { match: 'text-embedding-3', thresholds: { minVectorScore: 0.40, minCompositeScore: 0.35 } }
+];
+
+// LM Studio's default; vLLM serves on :8000/v1, llama.cpp server on :8080/v1
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:1234/v1';
+
+// Scraper CORS proxy: the public default, and the local one from scripts/cors-proxy.mjs
+export const DEFAULT_CORS_PROXY = 'https://api.allorigins.win/raw?url={url}';
+export const LOCAL_CORS_PROXY = 'http://localhost:8787/?url={url}';
+
+// Publisher layouts the density heuristic gets wrong
+export const DEFAULT_SCRAPER_PROFILES: ScraperProfile[] = [
+  {
+    id: 'mdpi',
+    domains: ['mdpi.com'],
+    bodySelectors: ['.html-body'],
+    excludeSelectors: ['.html-fig_wrap', '.html-table_wrap', '.html-caption', '.html-disp-formula-info'],
+    stopHeadings: ['references', 'author contributions']
+  },
+  {
+    id: 'frontiers',
+    domains: ['frontiersin.org'],
+    bodySelectors: ['.JournalFullText'],
+    excludeSelectors: ['.FigureDesc', '.Imageheaders', '.References', '.notes'],
+    stopHeadings: ['references', 'data availability statement']
+  },
+  {
+    id: 'sciencedirect',
+    domains: ['sciencedirect.com'],
+    bodySelectors: ['#body', '.Body'],
+    excludeSelectors: ['figure', '.tables', '.footnotes'],
+    stopHeadings: ['references', 'declaration of competing interest']
+  },
+  {
+    id: 'wiley',
+    domains: ['onlinelibrary.wiley.com'],
+    bodySelectors: ['.article-section__full', 'section.article-body-section'],
+    excludeSelectors: ['.article-section__inline-figure', '.article-table-content', '.accordion'],
+    stopHeadings: ['references', 'conflict of interest']
+  },
+  {
+    id: 'pmc',
+    domains: ['pmc.ncbi.nlm.nih.gov', 'ncbi.nlm.nih.gov'],
+    bodySelectors: ['section.body.main-article-body', '.jig-ncbiinpagenav'],
+    excludeSelectors: ['figure', '.table-wrap', '.fig'],
+    stopHeadings: ['references', 'acknowledg']
+  }
+];
+
+// Days a scraped extract is reused before the page is fetched again
+export const DEFAULT_SCRAPE_CACHE_TTL_DAYS = 30;
+
+export const SCRAPE_FAILURE_LABELS: Record<ScrapeFailure, string> = {
+  NO_URL: 'No URL',
+  HTTP_ERROR: 'HTTP error',
+  BLOCKED: 'Blocked (CORS)',
+  PROXY_FAILED: 'Proxy failed',
+  NO_BODY: 'No body found',
+  PDF_UNAVAILABLE: 'PDF unavailable',
+  PDF_PARSE_FAILED: 'PDF unreadable',
+  ERROR: 'Error'
+};
+
 export const DEFAULT_GRADING_TOPICS = [
   "Carotenoids", "phytochemicals", "Phytonutrient", "Biologically Active", "ALKALOIDS", "TCM", 
   "polyphenols", "plant extracts", "dose-dependent", "synergistic", "phenolic acids", "coumarins", 
@@ -3,6 +3,10 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import ErrorBoundary from './components/ErrorBoundary';
+import { replayService } from './services/replayService';
+
+// Before any service issues a request, so record/replay sees every exchange
+replayService.install();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
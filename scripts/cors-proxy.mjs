@@ -0,0 +1,154 @@
+#!/usr/bin/env node
+// Minimal CORS proxy for the scraper, meant to run next to Ollama.
+//
+//   npm run proxy                      -> http://localhost:8787/?url=<encoded url>
+//   PORT=9000 PROXY_TOKEN=secret npm run proxy
+//
+// Without PROXY_TOKEN only pages served from ALLOWED_ORIGINS (default: the Vite dev
+// server, http://localhost:3000) may read through the proxy. With PROXY_TOKEN set,
+// requests must send `X-Proxy-Token: <token>` (Settings -> Scraper CORS Proxy -> Auth Header)
+// and any origin holding the token is allowed.
+//
+// Only GET of public http(s) URLs is forwarded: loopback, private, link-local and other
+// non-routable addresses are refused after DNS resolution and on every redirect hop,
+// so the proxy cannot be used to read Ollama, router pages or other LAN services.
+
+import http from 'node:http';
+import https from 'node:https';
+import dns from 'node:dns';
+import net from 'node:net';
+
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = process.env.HOST || '127.0.0.1';
+const TOKEN = process.env.PROXY_TOKEN || '';
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || 'http://localhost:3000,http://127.0.0.1:3000')
+  .split(',').map(o => o.trim()).filter(Boolean);
+const TIMEOUT_MS = 30000;
+const MAX_REDIRECTS = 5;
+const USER_AGENT = 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36';
+
+const blocked = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([net4, prefix]) => blocked.addSubnet(net4, prefix, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['::ffff:0:0', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([net6, prefix]) => blocked.addSubnet(net6, prefix, 'ipv6'));
+
+function isBlockedAddress(address) {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as the IPv4 address it wraps
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return blocked.check(mapped[1], 'ipv4');
+  const family = net.isIP(address);
+  if (!family) return true;
+  return blocked.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Used as the socket's lookup, so the address checked is the address connected to
+function safeLookup(hostname, options, callback) {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err);
+    const bad = addresses.find(a => isBlockedAddress(a.address));
+    if (bad) return callback(Object.assign(new Error(`${hostname} resolves to non-public address ${bad.address}`), { code: 'EBLOCKED' }));
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+function checkTarget(url) {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'Only http(s) targets are allowed';
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  // IP literals skip DNS, so they never reach safeLookup
+  if (net.isIP(host) && isBlockedAddress(host)) return `Refusing non-public address ${host}`;
+  return null;
+}
+
+function get(url, accept, redirects = 0) {
+  return new Promise((resolve, reject) => {
+    const problem = checkTarget(url);
+    if (problem) return reject(Object.assign(new Error(problem), { code: 'EBLOCKED' }));
+
+    const client = url.protocol === 'https:' ? https : http;
+    const req = client.get(url, {
+      headers: { 'User-Agent': USER_AGENT, 'Accept': accept },
+      lookup: safeLookup,
+      timeout: TIMEOUT_MS
+    }, res => {
+      const location = res.headers.location;
+      if (res.statusCode >= 300 && res.statusCode < 400 && location) {
+        res.resume();
+        if (redirects >= MAX_REDIRECTS) return reject(new Error('Too many redirects'));
+        return get(new URL(location, url), accept, redirects + 1).then(resolve, reject);
+      }
+      const chunks = [];
+      res.on('data', chunk => chunks.push(chunk));
+      res.on('end', () => resolve({ status: res.statusCode, headers: res.headers, url, body: Buffer.concat(chunks) }));
+      res.on('error', reject);
+    });
+    req.on('timeout', () => req.destroy(new Error(`Timed out after ${TIMEOUT_MS / 1000}s`)));
+    req.on('error', reject);
+  });
+}
+
+function corsHeaders(origin) {
+  return {
+    'Access-Control-Allow-Origin': origin || 'null',
+    'Vary': 'Origin',
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Accept, X-Proxy-Token, Authorization',
+    'Access-Control-Expose-Headers': 'Content-Type, X-Proxy-Final-Url'
+  };
+}
+
+function fail(res, headers, status, message) {
+  res.writeHead(status, { ...headers, 'Content-Type': 'text/plain' });
+  res.end(message);
+}
+
+const server = http.createServer(async (req, res) => {
+  const origin = req.headers.origin || '';
+  const originAllowed = ALLOWED_ORIGINS.includes(origin);
+  // Without a token the origin allowlist is the only gate; with one, any origin holding the token passes
+  const headers = corsHeaders(originAllowed || TOKEN ? origin : '');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(originAllowed || TOKEN ? 204 : 403, headers);
+    return res.end();
+  }
+  if (req.method !== 'GET') return fail(res, headers, 405, 'Only GET is supported');
+
+  if (TOKEN) {
+    if (req.headers['x-proxy-token'] !== TOKEN) return fail(res, headers, 401, 'Missing or wrong X-Proxy-Token');
+  } else if (!originAllowed) {
+    return fail(res, headers, 403, `Origin ${origin || '(none)'} is not allowed. Set ALLOWED_ORIGINS or PROXY_TOKEN.`);
+  }
+
+  const target = new URL(req.url || '/', `http://${req.headers.host}`).searchParams.get('url');
+  let targetUrl;
+  try {
+    targetUrl = new URL(target || '');
+  } catch (e) {
+    return fail(res, headers, 400, 'Expected ?url=<http(s) URL>');
+  }
+
+  const started = Date.now();
+  try {
+    const upstream = await get(targetUrl, req.headers.accept || '*/*');
+    res.writeHead(upstream.status, {
+      ...headers,
+      'Content-Type': upstream.headers['content-type'] || 'application/octet-stream',
+      'X-Proxy-Final-Url': upstream.url.toString()
+    });
+    res.end(upstream.body);
+    console.log(`${upstream.status} ${targetUrl} (${Date.now() - started} ms, ${upstream.body.length} bytes)`);
+  } catch (e) {
+    console.warn(`ERR ${targetUrl}: ${e.message}`);
+    fail(res, headers, e.code === 'EBLOCKED' ? 403 : 502, `Upstream fetch failed: ${e.message}`);
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`CORS proxy listening on http://${HOST}:${PORT}/?url=...` +
+    (TOKEN ? ' (token required)' : ` (origins: ${ALLOWED_ORIGINS.join(', ')})`));
+});
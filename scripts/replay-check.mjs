@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+// Replays a committed fixture through the real services, fully offline.
+//
+//   npm run replay:check
+//
+// The fixture was recorded by a watch run (addedSince set to that day). Replaying it with
+// today's date must still hit every recorded exchange and parse into the same papers.
+// The outage fixture answers 503: the search must fail loudly and the watch date must stay put.
+
+import { readFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import assert from 'node:assert/strict';
+import { createServer } from 'vite';
+
+const root = fileURLToPath(new URL('..', import.meta.url));
+const FIXTURE = new URL('../public/fixtures/openalex-watch.json', import.meta.url);
+const OUTAGE_FIXTURE = new URL('../public/fixtures/openalex-outage.json', import.meta.url);
+
+// watchService persists to localStorage, which Node lacks
+const storage = new Map();
+globalThis.localStorage = {
+  getItem: key => storage.has(key) ? storage.get(key) : null,
+  setItem: (key, value) => storage.set(key, String(value)),
+  removeItem: key => storage.delete(key)
+};
+
+const vite = await createServer({ root, logLevel: 'error', appType: 'custom', server: { middlewareMode: true } });
+try {
+  const { replayService } = await vite.ssrLoadModule('/services/replayService.ts');
+  const { searchOpenAlex } = await vite.ssrLoadModule('/services/paperService.ts');
+  const { toDateString, getWatchMark, saveWatchMark, watchRunStart } = await vite.ssrLoadModule('/services/watchService.ts');
+
+  replayService.install();
+  replayService.loadFixture(JSON.parse(await readFile(FIXTURE, 'utf8')));
+  replayService.setMode('replay');
+
+  const { papers, total } = await searchOpenAlex('curcumin neuroprotection', 20, 0, { addedSince: toDateString(Date.now()) });
+
+  assert.equal(total, 2, 'total from the recorded meta.count');
+  assert.deepEqual(papers.map(p => p.id), ['W4390000001', 'W4390000002']);
+  assert.equal(papers[0].doi, '10.1000/example.2026.001');
+  assert.equal(papers[0].abstract, 'Curcumin reduced neuronal loss in a rotenone model of Parkinson disease.');
+  assert.deepEqual(papers[1].authors, ['R. Iyer', 'T. Okafor']);
+  console.log(`Replayed ${replayService.count} exchange(s): ${papers.length} papers parsed as expected.`);
+
+  // A failing source: what the batch loop would do with it, then what the watch mark keeps
+  replayService.loadFixture(JSON.parse(await readFile(OUTAGE_FIXTURE, 'utf8')));
+  const item = { id: 'outage', query: 'resveratrol neuroprotection', status: 'PENDING', watch: true };
+  const previousRun = Date.parse('2026-09-01T09:00:00Z');
+  saveWatchMark(item, ['doi:10.1000/already.seen'], previousRun);
+
+  const failedSources = new Map();
+  await searchOpenAlex(item.query, 20, 0, { addedSince: toDateString(previousRun) })
+    .then(() => assert.fail('a 503 after every retry must reject, not read as an empty source'))
+    .catch(e => failedSources.set('OPENALEX', e.message));
+  assert.match(failedSources.get('OPENALEX'), /HTTP 503/);
+
+  const watchStart = watchRunStart(Date.now(), { failFast: false, stoppedSources: failedSources.size, truncated: false });
+  assert.equal(watchStart, undefined, 'a failed source keeps the watch date back');
+  saveWatchMark(item, ['doi:10.1000/seen.before.outage'], watchStart);
+  const mark = getWatchMark(item);
+  assert.equal(mark.lastRun, previousRun);
+  assert.deepEqual(mark.seenKeys, ['doi:10.1000/already.seen', 'doi:10.1000/seen.before.outage']);
+  console.log('Failing source rejected and the watch date was kept back.');
+} finally {
+  await vite.close();
+}
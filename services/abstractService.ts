@@ -0,0 +1,56 @@
+
+import { Paper, AIService, FullTextExtract } from "../types";
+
+// What the source adapters put in when a record has no abstract
+const PLACEHOLDER_ABSTRACT = /^No abstract available/i;
+
+// Shorter than this the extract is a landing page stub, not something to summarize
+const MIN_SUMMARY_SOURCE_CHARS = 500;
+
+export function hasAbstract(paper: Paper): boolean {
+  return !!paper.abstract && !!paper.abstract.trim() && !PLACEHOLDER_ABSTRACT.test(paper.abstract);
+}
+
+/**
+ * Stand-in abstract from the record itself: title, journal and indexing terms.
+ * Embeds closer to the paper's topic than the "No abstract available." placeholder.
+ */
+export function metadataAbstract(paper: Paper): string {
+  const terms = [...(paper.meshHeadings || []).map(h => h.descriptor), ...(paper.keywords || [])];
+  return [
+    paper.title,
+    paper.venue ? `Published in ${paper.venue}${paper.year ? ` (${paper.year})` : ''}.` : '',
+    terms.length ? `Subjects: ${Array.from(new Set(terms)).slice(0, 20).join('; ')}.` : ''
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Fills a missing abstract before embedding: summarizes the full text when `getFullText`
+ * yields some, else falls back to metadataAbstract. Papers with an abstract are returned as is.
+ */
+export async function recoverAbstract(
+  paper: Paper,
+  ai: AIService,
+  getFullText: (() => Promise<FullTextExtract>) | null,
+  signal?: AbortSignal
+): Promise<Paper> {
+  if (hasAbstract(paper)) return paper;
+
+  if (getFullText) {
+    try {
+      const fullText = await getFullText();
+      if (fullText.text.length > MIN_SUMMARY_SOURCE_CHARS) {
+        const summary = (await ai.generateAbstract(paper.title, paper.authors, fullText.text.replace(/^##\s+/gm, ''), signal)).trim();
+        if (summary) {
+          console.log(`[ABSTRACT] Generated from ${fullText.strategy || 'full text'} for "${paper.title}"`);
+          return { ...paper, abstract: summary, abstractSections: undefined, syntheticAbstract: 'full-text' };
+        }
+      }
+    } catch (e: any) {
+      if (e.name === 'AbortError') throw e;
+      console.warn(`[ABSTRACT] Recovery from full text failed for ${paper.id}`, e);
+    }
+  }
+
+  return { ...paper, abstract: metadataAbstract(paper), abstractSections: undefined, syntheticAbstract: 'metadata' };
+}
@@ -0,0 +1,118 @@
+
+import { AIService, AIProvider, AppConfig, NetworkLog, Paper, EmbeddingThresholds } from "../types";
+import { DEFAULT_OPENAI_BASE_URL, DEFAULT_GEMINI_EMBEDDING_MODEL, EMBEDDING_THRESHOLD_DEFAULTS } from "../constants";
+import { GeminiService } from "./geminiService";
+import { OllamaService } from "./ollamaService";
+import { OpenAICompatibleService } from "./openaiService";
+
+export type AIRole = 'embedding' | 'generation';
+
+export function embeddingProvider(config: AppConfig): AIProvider {
+  return config.embeddingProvider || config.provider;
+}
+
+/**
+ * Model a provider uses for `role`, or "" when the settings are incomplete.
+ */
+export function providerModel(provider: AIProvider, role: AIRole, config: AppConfig): string {
+  if (provider === 'gemini') {
+    return role === 'embedding' ? (config.geminiEmbeddingModel || DEFAULT_GEMINI_EMBEDDING_MODEL) : config.geminiModel;
+  }
+  if (provider === 'openai') {
+    return (role === 'embedding' ? config.openaiEmbeddingModel || config.openaiModel : config.openaiModel) || "";
+  }
+  return (role === 'embedding' ? config.ollamaEmbeddingModel || 'nomic-embed-text' : config.ollamaModel) || "";
+}
+
+// "ollama:nomic-embed-text": thresholds and vectors are only comparable within one of these
+export function embeddingModelKey(config: AppConfig): string {
+  const provider = embeddingProvider(config);
+  return `${provider}:${providerModel(provider, 'embedding', config)}`;
+}
+
+/**
+ * Built-in starting thresholds for an embedding model key, when its family is known.
+ */
+export function defaultEmbeddingThresholds(modelKey: string): EmbeddingThresholds | undefined {
+  const model = modelKey.slice(modelKey.indexOf(':') + 1).toLowerCase();
+  return EMBEDDING_THRESHOLD_DEFAULTS.find(d => model.includes(d.match))?.thresholds;
+}
+
+/**
+ * Builds the service for one provider. Null when its settings are incomplete
+ * (no Gemini key, no model name).
+ */
+export function createAIService(provider: AIProvider, role: AIRole, config: AppConfig, onLog?: (log: NetworkLog) => void): AIService | null {
+  const model = providerModel(provider, role, config);
+  if (!model) return null;
+
+  if (provider === 'gemini') {
+    if (!config.geminiApiKey) return null;
+    return new GeminiService(config.geminiApiKey, config.geminiModel, config.geminiEmbeddingModel || DEFAULT_GEMINI_EMBEDDING_MODEL);
+  }
+  if (provider === 'openai') {
+    return new OpenAICompatibleService(
+      config.openaiBaseUrl || DEFAULT_OPENAI_BASE_URL,
+      config.openaiApiKey || '',
+      config.openaiModel || '',
+      config.openaiEmbeddingModel || config.openaiModel || '',
+      config.openaiStructuredOutput,
+      onLog
+    );
+  }
+  if (!config.ollamaBaseUrl) return null;
+  return new OllamaService(config.ollamaBaseUrl, config.ollamaModel, config.ollamaEmbeddingModel || 'nomic-embed-text', onLog);
+}
+
+/**
+ * Embeds with one service and generates with another, e.g. local nomic-embed-text
+ * prefiltering in front of Gemini grading.
+ */
+export class CompositeAIService implements AIService {
+  constructor(private embedder: AIService, private generator: AIService) {}
+
+  getEmbedding(text: string, signal?: AbortSignal) {
+    return this.embedder.getEmbedding(text, signal);
+  }
+
+  generateAbstract(title: string, authors: string[], fullText?: string, signal?: AbortSignal) {
+    return this.generator.generateAbstract(title, authors, fullText, signal);
+  }
+
+  analyzePaper(paper: Paper, gradingTopics: string[], signal?: AbortSignal) {
+    return this.generator.analyzePaper(paper, gradingTopics, signal);
+  }
+}
+
+/**
+ * The embedding and generation providers from `config`, composed. A single service
+ * when both are the same provider; null when either is not configured.
+ */
+export function createPipelineService(config: AppConfig, onLog?: (log: NetworkLog) => void): AIService | null {
+  const generator = createAIService(config.provider, 'generation', config, onLog);
+  if (embeddingProvider(config) === config.provider) {
+    return generator && providerModel(config.provider, 'embedding', config) ? generator : null;
+  }
+  const embedder = createAIService(embeddingProvider(config), 'embedding', config, onLog);
+  return embedder && generator ? new CompositeAIService(embedder, generator) : null;
+}
+
+/**
+ * Min Vector / Composite scores are only meaningful for the embedding model they were
+ * tuned on. On save, the outgoing model keeps its pair and the incoming one gets its saved
+ * pair back (else its built-in defaults), unless the sliders were moved in the same save.
+ */
+export function applyEmbeddingThresholds(previous: AppConfig, next: AppConfig): AppConfig {
+  const prevKey = embeddingModelKey(previous);
+  const nextKey = embeddingModelKey(next);
+  const thresholds = { ...(next.embeddingThresholds || {}) };
+  const edited = next.minVectorScore !== previous.minVectorScore || next.minCompositeScore !== previous.minCompositeScore;
+
+  if (prevKey !== nextKey) {
+    thresholds[prevKey] = { minVectorScore: previous.minVectorScore, minCompositeScore: previous.minCompositeScore };
+  }
+  const restored = prevKey !== nextKey && !edited ? thresholds[nextKey] || defaultEmbeddingThresholds(nextKey) : undefined;
+  const pair = restored || { minVectorScore: next.minVectorScore, minCompositeScore: next.minCompositeScore };
+  thresholds[nextKey] = pair;
+  return { ...next, ...pair, embeddingThresholds: thresholds };
+}
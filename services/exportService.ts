@@ -1,6 +1,18 @@
 
 import { Paper, ProcessingResult } from "../types";
 
+/**
+ * Start and end page of a MedlinePgn-style range. MEDLINE drops the digits the end page
+ * shares with the start ("112-9" is 112-119, "S12-4" is S12-S14), so they are restored here.
+ */
+function splitPageRange(pages: string): { start: string; end?: string } {
+  const [start, end] = pages.split('-').map(p => p.trim());
+  const startParts = start.match(/^(\D*)(\d+)$/);
+  if (!end || !startParts || !/^\d+$/.test(end) || end.length >= startParts[2].length) return { start, end: end || undefined };
+  const digits = startParts[2];
+  return { start, end: startParts[1] + digits.slice(0, digits.length - end.length) + end };
+}
+
 /**
  * Generates an RIS file content string from a list of papers.
  * RIS is compatible with Zotero, EndNote, Mendeley, etc.
@@ -15,7 +27,8 @@ export function generateRIS(results: { paper: Paper; result: ProcessingResult }[
   let risContent = "";
 
   qualifiedItems.forEach(({ paper, result }) => {
-    risContent += "TY  - JOUR\n"; // Type: Journal Article
+    // Type: Journal Article, or Unpublished Work for preprints
+    risContent += (result.isPreprint ?? paper.isPreprint) ? "TY  - UNPB\n" : "TY  - JOUR\n";
     risContent += `TI  - ${paper.title}\n`;
     
     // Authors
@@ -30,7 +43,35 @@ export function generateRIS(results: { paper: Paper; result: ProcessingResult }[
     }
     risContent += `AB  - ${abstract}\n`;
 
-    risContent += `PY  - ${paper.year}\n`;
+    if (paper.year) risContent += `PY  - ${paper.year}\n`;
+    if (paper.publishedDate) {
+      // RIS dates are YYYY/MM/DD/other; MedlineDate text goes in the "other" slot
+      risContent += /^\d{4}(-\d{2}){0,2}$/.test(paper.publishedDate)
+        ? `DA  - ${paper.publishedDate.replace(/-/g, '/')}\n`
+        : `DA  - ${paper.year}///${paper.publishedDate}\n`;
+    }
+
+    if (paper.isPreprint && paper.preprintServer) {
+      risContent += `PB  - ${paper.preprintServer}\n`;
+    } else if (paper.venue) {
+      risContent += `T2  - ${paper.venue}\n`;
+      if (paper.journalAbbrev) risContent += `J2  - ${paper.journalAbbrev}\n`;
+      if (paper.volume) risContent += `VL  - ${paper.volume}\n`;
+      if (paper.issue) risContent += `IS  - ${paper.issue}\n`;
+      if (paper.pages) {
+        const { start, end } = splitPageRange(paper.pages);
+        risContent += `SP  - ${start}\n`;
+        if (end) risContent += `EP  - ${end}\n`;
+      }
+    }
+
+    paper.affiliations?.forEach(aff => {
+      risContent += `AD  - ${aff}\n`;
+    });
+    if (paper.publicationTypes?.length) {
+      risContent += `M3  - ${paper.publicationTypes.join('; ')}\n`;
+    }
+    if (paper.pmid) risContent += `AN  - PMID:${paper.pmid}\n`;
     
     if (paper.doi) {
       risContent += `DO  - ${paper.doi}\n`;
@@ -44,6 +85,13 @@ export function generateRIS(results: { paper: Paper; result: ProcessingResult }[
     risContent += `N1  - EcoScholar Score: ${result.aiAnalysis?.score || 'N/A'}\n`;
     risContent += `KW  - ${result.querySource}\n`; // Keyword = Search Query
 
+    paper.meshHeadings?.forEach(h => {
+      risContent += `KW  - ${h.majorTopic ? '*' : ''}${h.descriptor}\n`;
+    });
+    paper.keywords?.forEach(k => {
+      risContent += `KW  - ${k}\n`;
+    });
+
     if (result.aiAnalysis?.tags) {
         result.aiAnalysis.tags.forEach(tag => {
             risContent += `KW  - ${tag}\n`;
@@ -0,0 +1,234 @@
+
+import { Paper, PaperSource, QueryFilters } from "../types";
+import { FILTER_LANGUAGES } from "../constants";
+
+// PubMed publication type -> Semantic Scholar publicationTypes value
+const S2_TYPES: Record<string, string> = {
+  'Journal Article': 'JournalArticle',
+  'Review': 'Review',
+  'Systematic Review': 'Review',
+  'Meta-Analysis': 'MetaAnalysis',
+  'Clinical Trial': 'ClinicalTrial',
+  'Randomized Controlled Trial': 'ClinicalTrial',
+  'Case Reports': 'CaseReport',
+  'Comment': 'LettersAndComments',
+  'Letter': 'LettersAndComments',
+  'Editorial': 'Editorial',
+  'News': 'News'
+};
+
+// PubMed publication type -> OpenAlex work type (types OpenAlex lacks are left out)
+const OPENALEX_TYPES: Record<string, string> = {
+  'Journal Article': 'article',
+  'Review': 'review',
+  'Systematic Review': 'review',
+  'Editorial': 'editorial',
+  'Letter': 'letter'
+};
+
+// Semantic Scholar publicationTypes -> PubMed vocabulary, so matchesFilters can compare
+const S2_TO_PUBMED: Record<string, string[]> = {
+  JournalArticle: ['Journal Article'],
+  Review: ['Review'],
+  MetaAnalysis: ['Meta-Analysis'],
+  ClinicalTrial: ['Clinical Trial'],
+  CaseReport: ['Case Reports'],
+  LettersAndComments: ['Letter', 'Comment'],
+  Editorial: ['Editorial'],
+  News: ['News']
+};
+
+export function fromSemanticScholarTypes(types?: string[] | null): string[] | undefined {
+  if (!types?.length) return undefined;
+  return Array.from(new Set(types.flatMap(t => S2_TO_PUBMED[t] || [t])));
+}
+
+export function hasFilters(filters?: QueryFilters): filters is QueryFilters {
+  return !!filters && !!(filters.yearFrom || filters.yearTo || filters.language || filters.includeTypes?.length || filters.excludeTypes?.length || filters.addedSince);
+}
+
+// One-line summary for the cycle header
+export function describeFilters(filters?: QueryFilters): string {
+  if (!hasFilters(filters)) return "None";
+  const parts: string[] = [];
+  if (filters.yearFrom || filters.yearTo) parts.push(`${filters.yearFrom || '…'}–${filters.yearTo || '…'}`);
+  if (filters.language) parts.push(FILTER_LANGUAGES.find(l => l.code === filters.language)?.label || filters.language);
+  if (filters.includeTypes?.length) parts.push(`only ${filters.includeTypes.join('/')}`);
+  if (filters.excludeTypes?.length) parts.push(`no ${filters.excludeTypes.join('/')}`);
+  if (filters.addedSince) parts.push(`added since ${filters.addedSince}`);
+  return parts.join(', ');
+}
+
+const FILTER_LABELS: Partial<Record<keyof QueryFilters, string>> = {
+  language: 'Language',
+  includeTypes: 'Include types',
+  excludeTypes: 'Exclude types'
+};
+
+// Set filters some source cannot apply, for the cycle header, e.g. "Language (Semantic Scholar)"
+export function describeUnappliedFilters(filters: QueryFilters | undefined, sources: PaperSource[]): string | undefined {
+  if (!hasFilters(filters)) return undefined;
+  const parts = sources.flatMap(source => {
+    const ignored = (source.unsupportedFilters || []).filter(key => {
+      const value = filters[key];
+      return Array.isArray(value) ? value.length > 0 : !!value;
+    });
+    return ignored.length ? [`${ignored.map(key => FILTER_LABELS[key] || key).join(', ')} (${source.label})`] : [];
+  });
+  return parts.length ? parts.join('; ') : undefined;
+}
+
+/**
+ * PubMed term with [dp] / [la] / [pt] clauses appended.
+ * addedSince becomes an Entrez-date range, the term form of mindate + datetype=edat.
+ */
+export function toPubMedTerm(query: string, filters?: QueryFilters): string {
+  if (!hasFilters(filters)) return query;
+  let term = `(${query})`;
+  if (filters.yearFrom || filters.yearTo) term += ` AND ${filters.yearFrom || 1800}:${filters.yearTo || 3000}[dp]`;
+  if (filters.language) term += ` AND ${filters.language}[la]`;
+  if (filters.includeTypes?.length) term += ` AND (${filters.includeTypes.map(t => `"${t}"[pt]`).join(' OR ')})`;
+  filters.excludeTypes?.forEach(t => { term += ` NOT "${t}"[pt]`; });
+  if (filters.addedSince) term += ` AND ("${filters.addedSince.replace(/-/g, '/')}"[edat] : "3000"[edat])`;
+  return term;
+}
+
+/**
+ * Europe PMC query with PUB_YEAR / LANG / PUB_TYPE clauses (also used for bioRxiv/medRxiv).
+ */
+export function toEuropePMCQuery(query: string, filters?: QueryFilters): string {
+  if (!hasFilters(filters)) return query;
+  let q = `(${query})`;
+  if (filters.yearFrom || filters.yearTo) q += ` AND (PUB_YEAR:[${filters.yearFrom || 1800} TO ${filters.yearTo || 3000}])`;
+  if (filters.language) q += ` AND LANG:"${filters.language}"`;
+  if (filters.includeTypes?.length) q += ` AND (${filters.includeTypes.map(t => `PUB_TYPE:"${t.toLowerCase()}"`).join(' OR ')})`;
+  filters.excludeTypes?.forEach(t => { q += ` NOT PUB_TYPE:"${t.toLowerCase()}"`; });
+  if (filters.addedSince) q += ` AND CREATION_DATE:[${filters.addedSince} TO 3000-12-31]`;
+  return q;
+}
+
+/**
+ * Semantic Scholar `year` / `publicationTypes` params. S2 has no language
+ * or exclusion filter; exclusions are applied after retrieval by matchesFilters,
+ * language cannot be (S2 returns none), so the source lists it as unsupported.
+ * S2 has no index date either, so addedSince filters on publication date.
+ */
+export function toSemanticScholarParams(filters?: QueryFilters): string {
+  if (!hasFilters(filters)) return "";
+  const params: string[] = [];
+  if (filters.yearFrom || filters.yearTo) params.push(`year=${filters.yearFrom || ''}-${filters.yearTo || ''}`);
+  const types = Array.from(new Set((filters.includeTypes || []).map(t => S2_TYPES[t]).filter(Boolean)));
+  if (types.length) params.push(`publicationTypes=${types.join(',')}`);
+  if (filters.addedSince) params.push(`publicationDateOrYear=${filters.addedSince}:`);
+  return params.length ? `&${params.join('&')}` : "";
+}
+
+/**
+ * OpenAlex `filter=` value (publication_year, language, type with `!` negation).
+ * addedSince maps to from_created_date, the day OpenAlex indexed the work, so older papers
+ * indexed late are still caught. OpenAlex has listed this filter as premium-only; if the
+ * API refuses it the search fails and the run reports OpenAlex as a failed source.
+ */
+export function toOpenAlexFilter(filters?: QueryFilters): string {
+  if (!hasFilters(filters)) return "";
+  const clauses: string[] = [];
+  if (filters.yearFrom || filters.yearTo) clauses.push(`publication_year:${filters.yearFrom || ''}-${filters.yearTo || ''}`);
+  const iso1 = FILTER_LANGUAGES.find(l => l.code === filters.language)?.iso1;
+  if (iso1) clauses.push(`language:${iso1}`);
+  const include = Array.from(new Set((filters.includeTypes || []).map(t => OPENALEX_TYPES[t]).filter(Boolean)));
+  if (include.length) clauses.push(`type:${include.join('|')}`);
+  const exclude = Array.from(new Set((filters.excludeTypes || []).map(t => OPENALEX_TYPES[t]).filter(Boolean)));
+  exclude.forEach(t => clauses.push(`type:!${t}`));
+  if (filters.addedSince) clauses.push(`from_created_date:${filters.addedSince}`);
+  return clauses.join(',');
+}
+
+/**
+ * arXiv submittedDate range clause (arXiv has no language or type metadata).
+ */
+export function toArxivDateClause(filters?: QueryFilters): string {
+  if (!filters?.yearFrom && !filters?.yearTo && !filters?.addedSince) return "";
+  const from = filters.addedSince ? `${filters.addedSince.replace(/-/g, '')}0000` : `${filters.yearFrom || 1991}01010000`;
+  return `submittedDate:[${from} TO ${filters.yearTo || 9999}12312359]`;
+}
+
+// PubMed operator -> arXiv operator
+const ARXIV_OPERATORS: Record<string, string> = { AND: 'AND', OR: 'OR', NOT: 'ANDNOT' };
+const ARXIV_OPERATOR_SET = new Set(Object.values(ARXIV_OPERATORS));
+
+// Terms the user already prefixed with an arXiv field (ti:, au:, cat:, ...) are kept as written
+const ARXIV_FIELD = /^(ti|au|abs|co|jr|cat|rn|id|all):/;
+
+/**
+ * arXiv search_query from a PubMed-style query. Terms and "quoted phrases" become all:
+ * clauses, AND / OR / NOT (arXiv's ANDNOT) and parentheses pass through, PubMed field
+ * tags such as [tiab] are dropped, and terms without an operator between them are ANDed.
+ * Dangling operators and unbalanced parentheses are repaired rather than sent to arXiv.
+ */
+export function toArxivQuery(query: string, filters?: QueryFilters): string {
+  const tokens = query.replace(/\[[^\]]*\]/g, ' ').match(/"[^"]*"|[()]|[^\s()"]+/g) || [];
+  const parts: string[] = [];
+  let depth = 0;
+  const last = () => parts[parts.length - 1];
+  const endsOperand = () => parts.length > 0 && last() !== '(' && !ARXIV_OPERATOR_SET.has(last());
+
+  tokens.forEach(token => {
+    if (Object.hasOwn(ARXIV_OPERATORS, token)) {
+      if (endsOperand()) parts.push(ARXIV_OPERATORS[token]);
+      return;
+    }
+    if (token === ')') {
+      if (ARXIV_OPERATOR_SET.has(last())) parts.pop();
+      if (depth === 0) return;
+      depth--;
+      // "()" left nothing to group
+      if (last() === '(') {
+        parts.pop();
+        if (ARXIV_OPERATOR_SET.has(last())) parts.pop();
+      } else {
+        parts.push(')');
+      }
+      return;
+    }
+    const phrase = token.startsWith('"') ? token.slice(1, -1).trim() : '';
+    const clause = token === '(' ? '(' : token.startsWith('"') ? (phrase ? `all:"${phrase}"` : '') : ARXIV_FIELD.test(token) ? token : `all:${token}`;
+    if (!clause) return;
+    if (endsOperand()) parts.push('AND');
+    parts.push(clause);
+    if (clause === '(') depth++;
+  });
+  if (ARXIV_OPERATOR_SET.has(last())) parts.pop();
+  for (; depth > 0; depth--) {
+    if (last() === '(') parts.pop();
+    else parts.push(')');
+  }
+  if (ARXIV_OPERATOR_SET.has(last())) parts.pop();
+
+  const terms = parts.join(' ');
+  const dateClause = toArxivDateClause(filters);
+  if (!dateClause) return terms;
+  return terms ? `(${terms}) AND ${dateClause}` : dateClause;
+}
+
+/**
+ * Client-side check for records whose source could not apply a filter natively
+ * (e.g. PubMed similar-articles, where elink takes no filters).
+ * Unknown metadata (year 0, no publication types, no languages, no index date) passes.
+ */
+export function matchesFilters(paper: Paper, filters?: QueryFilters): boolean {
+  if (!hasFilters(filters)) return true;
+  if (paper.year) {
+    if (filters.yearFrom && paper.year < filters.yearFrom) return false;
+    if (filters.yearTo && paper.year > filters.yearTo) return false;
+  }
+  const types = paper.publicationTypes;
+  if (types?.length) {
+    if (filters.excludeTypes?.some(t => types.includes(t))) return false;
+    if (filters.includeTypes?.length && !filters.includeTypes.some(t => types.includes(t))) return false;
+  }
+  if (filters.language && paper.languages?.length && !paper.languages.includes(filters.language)) return false;
+  // Both are "YYYY-MM-DD", so string order is date order
+  if (filters.addedSince && paper.indexedDate && paper.indexedDate.length === 10 && paper.indexedDate < filters.addedSince) return false;
+  return true;
+}
+
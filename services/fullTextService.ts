@@ -0,0 +1,93 @@
+
+import { FullTextExtract, FullTextSection, FullTextSectionCategory } from "../types";
+
+// First match wins, so "Results and Discussion" counts as RESULTS. METHODS is
+// unanchored to catch "Materials and Methods", "Patients and methods", etc.
+const HEADING_PATTERNS: [RegExp, FullTextSectionCategory][] = [
+  [/^(introduction|background)\b/i, 'INTRODUCTION'],
+  [/^results?\b/i, 'RESULTS'],
+  [/^discussion\b/i, 'DISCUSSION'],
+  [/^(conclusions?|concluding remarks)\b/i, 'CONCLUSIONS'],
+  [/\b(methods?|materials|methodology|experimental( section| procedures)?|study design)\b/i, 'METHODS']
+];
+
+// Back matter ends whatever section was running
+const BACK_MATTER = /^(acknowledg|funding|conflicts? of interest|competing interests|author contributions|data availability|supplementary|abbreviations|references|bibliography)/i;
+
+// PDF text has no markup; only top-level headings on a line of their own are recognised
+const PDF_HEADING = /^(\d+(\.\d+)*\.?\s+|[IVX]+\.\s+)?(introduction|background|materials? and methods|methods|methodology|experimental( section| procedures)?|results( and discussion)?|discussion|conclusions?)\s*$/i;
+
+const stripNumbering = (heading: string) => heading.replace(/^(\d+(\.\d+)*\.?|[IVX]+\.)\s+/, '').trim();
+
+function classifyHeading(heading: string, current: FullTextSectionCategory): FullTextSectionCategory {
+  const clean = stripNumbering(heading);
+  if (BACK_MATTER.test(clean)) return 'OTHER';
+  return HEADING_PATTERNS.find(([re]) => re.test(clean))?.[1] || current;
+}
+
+/**
+ * Splits text with "## Heading" lines into a section map.
+ * Unrecognised headings (e.g. "2.3 Plant material") inherit the running category.
+ */
+export function splitFullTextSections(text: string): FullTextExtract {
+  const sections: FullTextSection[] = [];
+  let current: FullTextSection = { heading: "", category: 'OTHER', text: "" };
+
+  text.split('\n').forEach(line => {
+    const heading = line.match(/^##\s+(.+)$/)?.[1];
+    if (heading) {
+      if (current.text.trim()) sections.push({ ...current, text: current.text.trim() });
+      current = { heading: heading.trim(), category: classifyHeading(heading, current.category), text: "" };
+    } else {
+      current.text += line + '\n';
+    }
+  });
+  if (current.text.trim()) sections.push({ ...current, text: current.text.trim() });
+
+  return { text, sections };
+}
+
+/**
+ * Marks top-level heading lines of PDF text as "## Heading" so splitFullTextSections can map them.
+ */
+export function markPdfHeadings(text: string): string {
+  return text.split('\n')
+    .map(line => line.trim().length <= 60 && PDF_HEADING.test(line.trim()) ? `## ${line.trim()}` : line)
+    .join('\n');
+}
+
+/**
+ * Full-text context for the analysis prompt: only the wanted sections, in document
+ * order, within `budget` chars. Each wanted category gets an equal share; what a
+ * short one leaves unused goes to the others. Falls back to the start of the text when none of
+ * the wanted sections were detected.
+ */
+export function buildFullTextContext(extract: FullTextExtract, wanted: FullTextSectionCategory[], budget: number): string {
+  const picked = extract.sections.filter(s => wanted.includes(s.category));
+  if (picked.length === 0) return extract.text.replace(/^##\s+/gm, '').substring(0, budget);
+
+  const blocks = picked.map(s => ({ category: s.category, text: `[${s.category}${s.heading ? `: ${s.heading}` : ''}]\n${s.text}` }));
+  // Smallest first, so what a short section leaves unused goes to the longer ones
+  const categories = wanted
+    .map(c => ({ c, size: blocks.filter(b => b.category === c).reduce((acc, b) => acc + b.text.length + 2, 0) }))
+    .filter(({ size }) => size > 0)
+    .sort((x, y) => x.size - y.size);
+  let remaining = budget;
+  const allowance = new Map<FullTextSectionCategory, number>();
+  categories.forEach(({ c, size }, i) => {
+    const share = Math.floor(remaining / (categories.length - i));
+    const granted = Math.min(size, share);
+    allowance.set(c, granted);
+    remaining -= granted;
+  });
+
+  const parts: string[] = [];
+  blocks.forEach(b => {
+    const left = allowance.get(b.category) || 0;
+    if (left <= 0) return;
+    const text = b.text.substring(0, left);
+    allowance.set(b.category, left - text.length - 2);
+    parts.push(text);
+  });
+  return parts.join('\n\n').substring(0, budget);
+}
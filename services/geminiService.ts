@@ -5,10 +5,12 @@ import { Paper, AIService } from "../types";
 export class GeminiService implements AIService {
   private client: GoogleGenAI;
   private modelId: string;
+  private embedModelId: string;
 
-  constructor(apiKey: string, modelId: string = "gemini-2.0-flash") {
+  constructor(apiKey: string, modelId: string = "gemini-2.0-flash", embedModelId: string = "text-embedding-004") {
     this.client = new GoogleGenAI({ apiKey });
     this.modelId = modelId;
+    this.embedModelId = embedModelId;
   }
 
   private cleanThinkTags(text: string): string {
@@ -66,7 +68,7 @@ export class GeminiService implements AIService {
     try {
       // Wrap embedding call with retry
       const response = await this.retryWithBackoff(() => this.client.models.embedContent({
-        model: 'text-embedding-004',
+        model: this.embedModelId,
         contents: [
           {
             parts: [{ text: text }]
@@ -104,9 +106,10 @@ export class GeminiService implements AIService {
         contents: prompt
       })) as GenerateContentResponse;
       
-      return this.cleanThinkTags(response.text || "Abstract generation failed.");
+      return this.cleanThinkTags(response.text || "");
     } catch (error) {
-      return "Abstract generation failed.";
+      // Empty = no abstract; callers fall back to metadata
+      return "";
     }
   }
 
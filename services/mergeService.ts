@@ -0,0 +1,110 @@
+
+import { Paper } from "../types";
+import { hasAbstract } from "./abstractService";
+
+// Lowercase, strip markup and punctuation so "Flavonoids: A <i>review</i>." == "flavonoids a review"
+export function normalizeTitle(title: string): string {
+  return (title || "")
+    .toLowerCase()
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Identity keys used to recognise the same paper across databases.
+ * Any shared key means "same paper".
+ */
+export function getPaperKeys(paper: Paper): string[] {
+  const keys: string[] = [];
+  if (paper.doi) keys.push(`doi:${paper.doi.toLowerCase().trim()}`);
+  if (paper.pmid) keys.push(`pmid:${paper.pmid}`);
+  if (paper.pmcid) keys.push(`pmcid:${paper.pmcid.toUpperCase()}`);
+
+  const title = normalizeTitle(paper.title);
+  // Very short titles ("Editorial", "Correction") collide too easily
+  if (title.split(' ').length >= 4) keys.push(`title:${title}`);
+  return keys;
+}
+
+// Fills gaps in `primary` from `other` and records both origins.
+function combine(primary: Paper, other: Paper): Paper {
+  return {
+    ...primary,
+    abstract: hasAbstract(primary) || !hasAbstract(other) ? primary.abstract : other.abstract,
+    abstractSections: hasAbstract(primary) || !hasAbstract(other) ? primary.abstractSections || other.abstractSections : other.abstractSections,
+    doi: primary.doi || other.doi,
+    pmid: primary.pmid || other.pmid,
+    pmcid: primary.pmcid || other.pmcid,
+    venue: primary.venue || other.venue,
+    journalAbbrev: primary.journalAbbrev || other.journalAbbrev,
+    volume: primary.volume || other.volume,
+    issue: primary.issue || other.issue,
+    pages: primary.pages || other.pages,
+    publishedDate: primary.publishedDate || other.publishedDate,
+    indexedDate: primary.indexedDate || other.indexedDate,
+    year: primary.year || other.year,
+    meshHeadings: primary.meshHeadings || other.meshHeadings,
+    keywords: primary.keywords || other.keywords,
+    publicationTypes: primary.publicationTypes || other.publicationTypes,
+    affiliations: primary.affiliations || other.affiliations,
+    isOpenAccess: primary.isOpenAccess || other.isOpenAccess,
+    authors: primary.authors[0] === 'Unknown' && other.authors[0] !== 'Unknown' ? other.authors : primary.authors,
+    foundIn: Array.from(new Set([...(primary.foundIn || [primary.source]), ...(other.foundIn || [other.source])]))
+  };
+}
+
+/**
+ * Collapses duplicates returned by several sources into one record per paper.
+ * The first occurrence wins (callers pass results in source priority order);
+ * later copies only contribute missing fields and provenance.
+ */
+export function mergePapers(papers: Paper[]): Paper[] {
+  const merged: Paper[] = [];
+  const keyIndex = new Map<string, number>();
+
+  for (const paper of papers) {
+    const keys = getPaperKeys(paper);
+    const existingIdx = keys.map(k => keyIndex.get(k)).find(i => i !== undefined);
+
+    if (existingIdx === undefined) {
+      merged.push({ ...paper, foundIn: paper.foundIn || [paper.source] });
+      keys.forEach(k => keyIndex.set(k, merged.length - 1));
+    } else {
+      merged[existingIdx] = combine(merged[existingIdx], paper);
+      getPaperKeys(merged[existingIdx]).forEach(k => keyIndex.set(k, existingIdx));
+    }
+  }
+  return merged;
+}
+
+/**
+ * Drops papers already processed earlier in the cycle and remembers the rest.
+ * Dropped copies are passed to `onSeen` so their origins can be added to the earlier result.
+ */
+export function filterUnseen(papers: Paper[], seenKeys: Set<string>, onSeen?: (paper: Paper) => void): Paper[] {
+  return papers.filter(paper => {
+    const keys = getPaperKeys(paper);
+    if (keys.some(k => seenKeys.has(k))) {
+      onSeen?.(paper);
+      return false;
+    }
+    keys.forEach(k => seenKeys.add(k));
+    return true;
+  });
+}
+
+export function isSamePaper(a: Paper, b: Paper): boolean {
+  const keys = new Set(getPaperKeys(a));
+  return getPaperKeys(b).some(k => keys.has(k));
+}
+
+/**
+ * Adds `other`'s origins to an already processed copy of the same paper.
+ * Returns `existing` itself when nothing new was found.
+ */
+export function mergeProvenance(existing: Paper, other: Paper): Paper {
+  const current = existing.foundIn || [existing.source];
+  const foundIn = Array.from(new Set([...current, ...(other.foundIn || [other.source])]));
+  return foundIn.length === current.length ? existing : { ...existing, foundIn };
+}
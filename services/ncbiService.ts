@@ -0,0 +1,149 @@
+
+import { NetworkLog } from "../types";
+
+const EUTILS_BASE = "https://eutils.ncbi.nlm.nih.gov/entrez/eutils";
+const TOOL_NAME = "ecoscholar";
+
+/**
+ * Token bucket shared by every caller of a rate-limited API.
+ * The bucket holds a single token, so requests are released at a fixed spacing of
+ * 1000 / `ratePerSec` ms: no burst can exceed the per-second limit.
+ */
+export class TokenBucket {
+  private ratePerSec: number;
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(ratePerSec: number) {
+    this.ratePerSec = ratePerSec;
+    this.tokens = 1;
+    this.lastRefill = Date.now();
+  }
+
+  setRate(ratePerSec: number) {
+    this.ratePerSec = ratePerSec;
+  }
+
+  acquire(): Promise<void> {
+    // Chain so concurrent callers are served strictly in order
+    const turn = this.queue.then(() => this.take());
+    this.queue = turn.catch(() => {});
+    return turn;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(1, this.tokens + ((now - this.lastRefill) / 1000) * this.ratePerSec);
+    this.lastRefill = now;
+  }
+
+  private async take() {
+    this.refill();
+    if (this.tokens < 1) {
+      const waitMs = ((1 - this.tokens) / this.ratePerSec) * 1000;
+      await new Promise(r => setTimeout(r, waitMs));
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+}
+
+/**
+ * Single entry point for NCBI E-utilities.
+ * Adds api_key / tool / email, paces requests (3 rps anonymous, 10 rps with a key)
+ * and reports traffic to the Network sidebar.
+ */
+export class NcbiClient {
+  private apiKey = "";
+  private email = "";
+  private onLog?: (log: NetworkLog) => void;
+  private limiter = new TokenBucket(3);
+
+  configure(config: { apiKey?: string; email?: string; onLog?: (log: NetworkLog) => void }) {
+    this.apiKey = (config.apiKey || "").trim();
+    this.email = (config.email || "").trim();
+    this.onLog = config.onLog;
+    this.limiter.setRate(this.apiKey ? 10 : 3);
+  }
+
+  buildUrl(utility: string, params: Record<string, string | number | undefined>): string {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([k, v]) => {
+      if (v !== undefined && v !== '') query.set(k, String(v));
+    });
+    query.set('tool', TOOL_NAME);
+    if (this.email) query.set('email', this.email);
+    if (this.apiKey) query.set('api_key', this.apiKey);
+    return `${EUTILS_BASE}/${utility}?${query.toString()}`;
+  }
+
+  async fetch(utility: string, params: Record<string, string | number | undefined>, signal?: AbortSignal): Promise<Response> {
+    await this.limiter.acquire();
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+
+    const url = this.buildUrl(utility, params);
+    const requestId = `ncbi-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+    const startTime = Date.now();
+    // Never echo the key into the log panel
+    const path = `/${utility}?${url.split('?')[1].replace(/api_key=[^&]+/, 'api_key=***')}`;
+
+    this.onLog?.({
+      id: requestId,
+      timestamp: startTime,
+      source: 'NCBI',
+      type: 'req',
+      method: 'GET',
+      url: path
+    });
+
+    try {
+      const response = await fetch(url, { signal });
+
+      if (!response.ok) {
+        const isRateLimit = response.status === 429;
+        this.onLog?.({
+          id: requestId + '-err',
+          timestamp: Date.now(),
+          source: 'NCBI',
+          type: 'err',
+          method: 'GET',
+          url: path,
+          status: response.status,
+          duration: Date.now() - startTime,
+          details: isRateLimit
+            ? `Rate limited by NCBI (429).${this.apiKey ? '' : ' Add an NCBI API key in Settings to raise the limit to 10 req/s.'}`
+            : `HTTP ${response.status} ${response.statusText}`
+        });
+      } else {
+        this.onLog?.({
+          id: requestId + '-res',
+          timestamp: Date.now(),
+          source: 'NCBI',
+          type: 'res',
+          method: 'GET',
+          url: path,
+          status: response.status,
+          duration: Date.now() - startTime
+        });
+      }
+      return response;
+    } catch (e: any) {
+      if (e.name !== 'AbortError') {
+        this.onLog?.({
+          id: requestId + '-err',
+          timestamp: Date.now(),
+          source: 'NCBI',
+          type: 'err',
+          method: 'GET',
+          url: path,
+          duration: Date.now() - startTime,
+          details: e.message
+        });
+      }
+      throw e;
+    }
+  }
+}
+
+export const ncbiClient = new NcbiClient();
@@ -0,0 +1,74 @@
+
+import { Paper, OpenAccessLocation } from "../types";
+
+const UNPAYWALL_BASE = "https://api.unpaywall.org/v2";
+
+let unpaywallEmail = "";
+// DOI/PMCID -> resolved location (null = checked, nothing open)
+const resolved = new Map<string, OpenAccessLocation | null>();
+
+/**
+ * Unpaywall rejects anonymous requests, so lookups are skipped until an email is set.
+ */
+export function configureOpenAccess(config: { email?: string }) {
+  const email = (config.email || "").trim();
+  // Answers given without Unpaywall are incomplete once it becomes available
+  if (email !== unpaywallEmail) resolved.clear();
+  unpaywallEmail = email;
+}
+
+async function lookupUnpaywall(doi: string, signal?: AbortSignal): Promise<OpenAccessLocation | null> {
+  const res = await fetch(`${UNPAYWALL_BASE}/${encodeURIComponent(doi)}?email=${encodeURIComponent(unpaywallEmail)}`, { signal });
+  // 404 = DOI unknown to Unpaywall, not an error worth surfacing
+  if (!res.ok) return null;
+  const data = await res.json();
+  const best = data.is_oa ? data.best_oa_location : null;
+  if (!best) return null;
+
+  const url = best.url_for_landing_page || best.url_for_pdf || best.url;
+  if (!url) return null;
+  return {
+    url,
+    pdfUrl: best.url_for_pdf || undefined,
+    license: best.license || undefined,
+    hostType: best.host_type === 'repository' ? 'repository' : 'publisher',
+    version: best.version || undefined
+  };
+}
+
+// Every PMC article is free to read; Europe PMC renders the PDF for any PMCID
+function pmcLocation(pmcid: string): OpenAccessLocation {
+  const id = pmcid.toUpperCase().startsWith('PMC') ? pmcid.toUpperCase() : `PMC${pmcid}`;
+  return {
+    url: `https://pmc.ncbi.nlm.nih.gov/articles/${id}/`,
+    pdfUrl: `https://europepmc.org/articles/${id}?pdf=render`,
+    hostType: 'pmc'
+  };
+}
+
+/**
+ * Legal open-access copy of a paper: Unpaywall's best location for the DOI,
+ * else the PMC copy when a PMCID exists. Null when neither is known.
+ */
+export async function resolveOpenAccess(paper: Paper, signal?: AbortSignal): Promise<OpenAccessLocation | null> {
+  const cacheKey = paper.doi ? `doi:${paper.doi.toLowerCase()}` : paper.pmcid ? `pmc:${paper.pmcid}` : null;
+  if (!cacheKey) return null;
+  if (resolved.has(cacheKey)) return resolved.get(cacheKey)!;
+
+  let location: OpenAccessLocation | null = null;
+  let failed = false;
+  if (paper.doi && unpaywallEmail) {
+    try {
+      location = await lookupUnpaywall(paper.doi, signal);
+    } catch (e: any) {
+      if (e.name === 'AbortError') throw e;
+      console.warn(`[OA] Unpaywall lookup failed for ${paper.doi}`, e);
+      failed = true;
+    }
+  }
+  if (!location && paper.pmcid) location = pmcLocation(paper.pmcid);
+
+  // A network failure is retried next time; a definite answer is not
+  if (!failed) resolved.set(cacheKey, location);
+  return location;
+}
@@ -155,9 +155,10 @@ export class OllamaService implements AIService {
       );
       
       const data = await res.json();
-      return this.cleanThinkTags(data.response || "Failed.");
-    } catch (e) {
-      return "Generation failed.";
+      return this.cleanThinkTags(data.response || "");
+    } catch (e: any) {
+      if (e.name === 'AbortError') throw e;
+      return "";
     }
   }
 
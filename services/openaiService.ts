@@ -0,0 +1,272 @@
+
+import { Paper, AIService, NetworkLog, OpenAIStructuredOutput } from "../types";
+
+// Same fields the Gemini responseSchema enforces
+const ANALYSIS_SCHEMA = {
+  type: "object",
+  properties: {
+    score: { type: "number", description: "Relevance Score 0-10. 0=Irrelevant, 10=Perfect Match" },
+    qualified: { type: "boolean", description: "True if score >= 6 AND relevant to specified topics" },
+    summary: { type: "string", description: "Concise bullet points summarizing the paper." },
+    tags: { type: "array", items: { type: "string" }, description: "List of relevant keywords" },
+    phytochemicals: { type: "string", description: "Comma separated list of specific chemicals found. 'None' if empty." },
+    plants: { type: "string", description: "Comma separated list of specific plants found. 'None' if empty." },
+    possible_plants: { type: "string", description: "Plants/compounds with reasoning if inferred. 'None' if empty." },
+    probability: { type: "integer", description: "Integer 0-10. Probability this is a specific/novel finding." }
+  },
+  required: ["score", "qualified", "summary", "tags", "phytochemicals", "plants", "possible_plants", "probability"]
+};
+
+/**
+ * Any server speaking the OpenAI REST API: LM Studio, vLLM, llama.cpp server, LocalAI, OpenAI itself.
+ * `baseUrl` includes the version prefix (e.g. http://localhost:1234/v1).
+ */
+export class OpenAICompatibleService implements AIService {
+  private baseUrl: string;
+  private apiKey: string;
+  private chatModel: string;
+  private embedModel: string;
+  private structuredOutput: OpenAIStructuredOutput;
+  private onLog?: (log: NetworkLog) => void;
+
+  constructor(
+    baseUrl: string,
+    apiKey: string,
+    chatModel: string,
+    embedModel: string,
+    structuredOutput: OpenAIStructuredOutput = 'json_schema',
+    onLog?: (log: NetworkLog) => void
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey.trim();
+    this.chatModel = chatModel;
+    this.embedModel = embedModel;
+    this.structuredOutput = structuredOutput;
+    this.onLog = onLog;
+  }
+
+  private cleanThinkTags(text: string): string {
+    if (!text) return "";
+    return text.replace(/<think>[\s\S]*?<\/think>/gi, '').replace(/<\/think>/gi, '').trim();
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    // Local servers usually ignore the key; OpenAI and hosted vLLM require it
+    if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+    return headers;
+  }
+
+  private async monitoredFetch(path: string, options: RequestInit): Promise<Response> {
+    const requestId = `oai-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+    const startTime = Date.now();
+    const method = options.method || 'GET';
+
+    this.onLog?.({
+        id: requestId,
+        timestamp: startTime,
+        source: 'OpenAI',
+        type: 'req',
+        method: method,
+        url: path,
+        requestBody: options.body as string
+    });
+
+    try {
+        const response = await fetch(`${this.baseUrl}${path}`, options);
+
+        const resText = await response.clone().text();
+        let resBodyStr = resText;
+        try {
+           const parsed = JSON.parse(resText);
+           (parsed.data || []).forEach((d: any) => {
+             if (Array.isArray(d.embedding)) d.embedding = `[Array(${d.embedding.length})]`;
+           });
+           resBodyStr = JSON.stringify(parsed, null, 2);
+        } catch(e) {}
+
+        this.onLog?.({
+          id: requestId + (response.ok ? '-res' : '-err'),
+          timestamp: Date.now(),
+          source: 'OpenAI',
+          type: response.ok ? 'res' : 'err',
+          method: method,
+          url: path,
+          status: response.status,
+          duration: Date.now() - startTime,
+          responseBody: resBodyStr
+        });
+
+        return response;
+    } catch (e: any) {
+         this.onLog?.({
+          id: requestId + '-err',
+          timestamp: Date.now(),
+          source: 'OpenAI',
+          type: 'err',
+          method: method,
+          url: path,
+          duration: Date.now() - startTime,
+          details: e.message
+        });
+        throw e;
+    }
+  }
+
+  private async fetchWithRetry(path: string, body: any, signal?: AbortSignal): Promise<any> {
+    const MAX_RETRIES = 3;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            const res = await this.monitoredFetch(path, {
+                method: 'POST',
+                headers: this.headers(),
+                body: JSON.stringify(body),
+                signal
+            });
+            if (!res.ok) {
+                const error: any = new Error(`OpenAI-compatible HTTP ${res.status}`);
+                error.status = res.status;
+                throw error;
+            }
+            return await res.json();
+        } catch (e: any) {
+            if (e.name === 'AbortError') throw e;
+            // 4xx other than 429 is a bad request or model name; retrying will not help
+            if (e.status && e.status < 500 && e.status !== 429) throw e;
+            console.warn(`OpenAI-compatible Req Failed (Attempt ${attempt}):`, e);
+            if (attempt >= MAX_RETRIES) throw e;
+            await new Promise(r => setTimeout(r, 1000 * attempt));
+        }
+    }
+  }
+
+  async getEmbedding(text: string, signal?: AbortSignal): Promise<number[] | null> {
+    if (!text) return null;
+    try {
+      const data = await this.fetchWithRetry('/embeddings', { model: this.embedModel, input: text }, signal);
+      return data.data?.[0]?.embedding || null;
+    } catch (error: any) {
+       if (error.name === 'AbortError') throw error;
+       console.error("Embedding Error:", error);
+       return null;
+    }
+  }
+
+  async generateAbstract(title: string, authors: string[], fullText?: string, signal?: AbortSignal): Promise<string> {
+    try {
+      const prompt = fullText && fullText.length > 500
+        ? `Summarize the following academic text into a concise abstract (approx 150 to 250 words). Focus on the objectives, methods, and results.\n\nTEXT SOURCE:\n${fullText.slice(0, 15000)}`
+        : `Generate a 3-sentence abstract for this paper based on metadata. Title: ${title} Authors: ${authors.join(", ")} Output ONLY text.`;
+
+      const data = await this.fetchWithRetry('/chat/completions', {
+        model: this.chatModel,
+        messages: [{ role: 'user', content: prompt }],
+        stream: false
+      }, signal);
+      return this.cleanThinkTags(data.choices?.[0]?.message?.content || "");
+    } catch (e: any) {
+      if (e.name === 'AbortError') throw e;
+      return "";
+    }
+  }
+
+  async analyzePaper(paper: Paper, gradingTopics: string[], signal?: AbortSignal): Promise<{
+      qualified: boolean;
+      score: number;
+      summary: string;
+      tags: string[];
+      phytochemicals: string;
+      plants: string;
+      possible_plants: string;
+      probability: number;
+  }> {
+    const topicsStr = gradingTopics.length > 0 ? gradingTopics.join(", ") : "Phytochemicals";
+
+    const promptText = `
+        Analyze the following scientific paper.
+
+        PAPER DATA
+        Title: ${paper.title}
+        Abstract: ${paper.abstract}
+
+        CRITERIA: Evaluate relevance to: ${topicsStr}
+
+        SCORING GUIDELINES
+        - "score": Overall relevance (0-10).
+        - "probability": DISCOVERY PROBABILITY (0-10). 0 = irrelevant, 1-4 = general mention or review,
+          5-10 = specific plants/compounds in a medical/biological context.
+
+        IMPORTANT: 'score' and 'probability' must be integers between 0 and 10.
+    `;
+
+    // json_schema is what LM Studio, vLLM and llama.cpp all accept; tool calls suit servers without grammar support
+    const request: any = {
+        model: this.chatModel,
+        messages: [
+            { role: 'system', content: 'You grade scientific papers and answer only with the requested structured output.' },
+            { role: 'user', content: promptText }
+        ],
+        temperature: 0,
+        stream: false
+    };
+    if (this.structuredOutput === 'tool_call') {
+        request.tools = [{ type: 'function', function: { name: 'report_analysis', description: 'Report the structured paper analysis.', parameters: ANALYSIS_SCHEMA } }];
+        request.tool_choice = { type: 'function', function: { name: 'report_analysis' } };
+    } else {
+        request.response_format = { type: 'json_schema', json_schema: { name: 'paper_analysis', schema: ANALYSIS_SCHEMA } };
+    }
+
+    try {
+        const data = await this.fetchWithRetry('/chat/completions', request, signal);
+        const message = data.choices?.[0]?.message || {};
+        let cleaned = this.cleanThinkTags(
+            message.tool_calls?.[0]?.function?.arguments ?? message.content ?? ""
+        );
+
+        // Servers that ignore response_format may still wrap the JSON in prose or a code fence
+        const firstOpen = cleaned.indexOf('{');
+        const lastClose = cleaned.lastIndexOf('}');
+        if (firstOpen !== -1 && lastClose !== -1 && lastClose > firstOpen) {
+            cleaned = cleaned.substring(firstOpen, lastClose + 1);
+        }
+
+        const json = JSON.parse(cleaned);
+        const safeStr = (v: any) => Array.isArray(v) ? v.join(", ") : (v || "None");
+
+        // Ensure 0-10 scale
+        let score = Number(json.score) || 0;
+        let prob = Number(json.probability) || 0;
+        if (score > 0 && score <= 1) score = Math.round(score * 10);
+        if (prob > 0 && prob <= 1) prob = Math.round(prob * 10);
+        score = Math.min(score, 10);
+        prob = Math.min(prob, 10);
+
+        return {
+            qualified: !!json.qualified || score >= 5 || prob >= 5,
+            score: score,
+            summary: safeStr(json.summary),
+            tags: Array.isArray(json.tags) ? json.tags : [],
+            phytochemicals: safeStr(json.phytochemicals),
+            plants: safeStr(json.plants),
+            possible_plants: safeStr(json.possible_plants),
+            probability: prob
+        };
+
+    } catch (e: any) {
+        if (e.name === 'AbortError') throw e;
+        console.error("Analysis Failed:", e);
+        return {
+            qualified: false, score: 0, summary: `Error: ${e.message}`, tags: [],
+            phytochemicals: "Error", plants: "Error", possible_plants: "Error", probability: 0
+        };
+    }
+  }
+
+  // Model ids served at /models (the Settings "Test" button)
+  async listModels(signal?: AbortSignal): Promise<string[]> {
+    const res = await fetch(`${this.baseUrl}/models`, { headers: this.headers(), signal });
+    if (!res.ok) throw new Error(`HTTP ${res.status} from ${this.baseUrl}/models`);
+    const data = await res.json();
+    return (data.data || []).map((m: any) => m.id).filter(Boolean);
+  }
+}
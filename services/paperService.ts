@@ -1,8 +1,66 @@
 
-import { Paper } from "../types";
+import { Paper, PaperSource, MeshHeading, AbstractSection, AbstractSectionCategory, QueryFilters } from "../types";
+import { MAX_FULL_TEXT_CHARS } from "../constants";
+import { ncbiClient } from "./ncbiService";
+import { toPubMedTerm, toEuropePMCQuery, toSemanticScholarParams, toOpenAlexFilter, toArxivQuery, fromSemanticScholarTypes } from "./filterService";
+
+// Snapshot of one esearch on the NCBI history server
+interface PubMedHistory {
+    webEnv: string;
+    queryKey: string;
+    total: number;
+    createdAt: number;
+}
+
+// Retry backoff that ends early with an AbortError when the run is stopped
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// NCBI drops idle history sessions after a few hours; refresh well before that
+const PUBMED_HISTORY_TTL_MS = 60 * 60 * 1000;
+const pubMedHistory = new Map<string, PubMedHistory>();
+
+async function getPubMedHistory(query: string, refresh: boolean, signal?: AbortSignal): Promise<PubMedHistory> {
+    const cached = pubMedHistory.get(query);
+    if (cached && !refresh && Date.now() - cached.createdAt < PUBMED_HISTORY_TTL_MS) return cached;
+
+    const res = await ncbiClient.fetch('esearch.fcgi', {
+        db: 'pubmed', term: query, retmode: 'json', retmax: 0, sort: 'date', usehistory: 'y'
+    }, signal);
+    if (!res.ok) throw new Error(`PubMed Search HTTP ${res.status}`);
+
+    const json = await res.json();
+    const result = json.esearchresult;
+    if (!result?.webenv || !result?.querykey) throw new Error(result?.ERROR || "PubMed Search returned no history session");
+
+    const session: PubMedHistory = {
+        webEnv: result.webenv,
+        queryKey: result.querykey,
+        total: parseInt(result.count || '0', 10),
+        createdAt: Date.now()
+    };
+    pubMedHistory.set(query, session);
+    return session;
+}
 
 /**
- * Step 1: Get all IDs for the query range in one go.
+ * Step 1: Get the IDs for a slice of the query's results.
+ * The query runs once on the NCBI history server (usehistory=y) and every later
+ * slice pages through that same snapshot, so ordering stays stable while new
+ * records are indexed and offsets past the 10k esearch window still work.
+ * A run starting at offset 0 takes a fresh snapshot.
  * Returns both the list of IDs and the total count available in the database.
  */
 export async function getPubMedIds(
@@ -13,33 +71,170 @@ export async function getPubMedIds(
 ): Promise<{ ids: string[]; total: number }> {
     const MAX_RETRIES = 3;
     let attempt = 0;
+    let refresh = retstart === 0;
 
     while (attempt < MAX_RETRIES) {
         try {
             attempt++;
-            const encodedQuery = encodeURIComponent(query);
-            // Ensure retmax is respected by the API
-            const searchUrl = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/esearch.fcgi?db=pubmed&term=${encodedQuery}&retmode=json&retstart=${retstart}&retmax=${retmax}&sort=date`;
-            
-            const res = await fetch(searchUrl, { signal });
-            if (!res.ok) throw new Error(`PubMed Search HTTP ${res.status}`);
-            
-            const json = await res.json();
-            const total = parseInt(json.esearchresult?.count || '0', 10);
-            const ids = json.esearchresult?.idlist || [];
+            const session = await getPubMedHistory(query, refresh, signal);
+            if (retstart >= session.total) return { ids: [], total: session.total };
+
+            const res = await ncbiClient.fetch('efetch.fcgi', {
+                db: 'pubmed', WebEnv: session.webEnv, query_key: session.queryKey,
+                rettype: 'uilist', retmode: 'text', retstart, retmax
+            }, signal);
+            if (!res.ok) throw new Error(`PubMed History HTTP ${res.status}`);
+
+            const lines = (await res.text()).split('\n').map(l => l.trim()).filter(Boolean);
+            // An expired WebEnv comes back as an error document instead of a PMID list
+            if (lines.some(l => !/^\d+$/.test(l))) {
+                refresh = true;
+                throw new Error("PubMed history session expired");
+            }
+            refresh = false;
             
-            return { ids, total };
+            return { ids: lines, total: session.total };
 
         } catch (e: any) {
             if (e.name === 'AbortError') throw e;
             console.warn(`PubMed ID Fetch Retry ${attempt}/${MAX_RETRIES}`, e);
             if (attempt >= MAX_RETRIES) throw e;
-            await new Promise(r => setTimeout(r, 1000 * attempt)); // Linear backoff
+            await sleep(1000 * attempt, signal); // Linear backoff
         }
     }
     return { ids: [], total: 0 };
 }
 
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const textOf = (el: Element | null | undefined) => el?.textContent?.trim() || "";
+
+/**
+ * Reads a PubMed date element (PubDate / ArticleDate).
+ * Structured dates become "YYYY[-MM[-DD]]"; MedlineDate ("1998 Dec-1999 Jan") is kept verbatim.
+ */
+function parsePubMedDate(dateEl: Element | null): { year: number; date?: string } | null {
+    if (!dateEl) return null;
+
+    const medlineDate = textOf(dateEl.querySelector("MedlineDate"));
+    if (medlineDate) {
+        const year = medlineDate.match(/\d{4}/);
+        return year ? { year: parseInt(year[0], 10), date: medlineDate } : null;
+    }
+
+    const yearStr = textOf(dateEl.querySelector("Year"));
+    if (!/^\d{4}$/.test(yearStr)) return null;
+
+    let date = yearStr;
+    const monthStr = textOf(dateEl.querySelector("Month"));
+    const monthIdx = /^\d+$/.test(monthStr) ? parseInt(monthStr, 10) : MONTHS.indexOf(monthStr.slice(0, 3).toLowerCase()) + 1;
+    if (monthIdx >= 1 && monthIdx <= 12) {
+        date += `-${String(monthIdx).padStart(2, '0')}`;
+        const day = parseInt(textOf(dateEl.querySelector("Day")), 10);
+        if (day >= 1 && day <= 31) date += `-${String(day).padStart(2, '0')}`;
+    }
+    return { year: parseInt(yearStr, 10), date };
+}
+
+const SECTION_LABEL_PATTERNS: [RegExp, AbstractSectionCategory][] = [
+    [/background|introduction|context|rationale/i, 'BACKGROUND'],
+    [/objective|aim|purpose|goal/i, 'OBJECTIVE'],
+    [/method|design|setting|material|procedure/i, 'METHODS'],
+    [/result|finding/i, 'RESULTS'],
+    [/conclusion|interpretation|implication|significance/i, 'CONCLUSIONS']
+];
+
+/**
+ * Keeps the labelled parts of a structured abstract.
+ * NlmCategory is preferred; older records only carry the printed Label.
+ * Unstructured abstracts (no labels) return undefined.
+ */
+function parseAbstractSections(nodes: Element[]): AbstractSection[] | undefined {
+    if (!nodes.some(n => n.getAttribute("Label"))) return undefined;
+
+    return nodes.map(n => {
+        const label = n.getAttribute("Label") || "";
+        const nlm = (n.getAttribute("NlmCategory") || "").toUpperCase();
+        const category = (nlm && nlm !== 'UNASSIGNED' ? nlm : SECTION_LABEL_PATTERNS.find(([re]) => re.test(label))?.[1] || 'UNASSIGNED') as AbstractSectionCategory;
+        return { label: label || category, category, text: textOf(n) };
+    }).filter(sec => sec.text);
+}
+
+/**
+ * Maps one <PubmedArticle> to a Paper.
+ * Selectors are anchored to the article's own nodes so IDs in the
+ * ReferenceList / CommentsCorrections are never picked up by mistake.
+ */
+function mapPubMedArticle(art: Element, index: number): Paper {
+    const article = art.querySelector("MedlineCitation > Article");
+    const title = textOf(article?.querySelector("ArticleTitle")) || "Untitled";
+
+    const abstractNodes = Array.from(article?.querySelectorAll("Abstract > AbstractText") || []);
+    const abstractText = abstractNodes.map(n => n.textContent).join(" ");
+    const abstractSections = parseAbstractSections(abstractNodes);
+
+    const authorNodes = Array.from(article?.querySelectorAll("AuthorList > Author") || []);
+    const authors = authorNodes
+        .map(a => `${textOf(a.querySelector("LastName"))} ${textOf(a.querySelector("Initials"))}`.trim() || textOf(a.querySelector("CollectiveName")))
+        .filter(n => n.length > 0);
+    const affiliations = Array.from(new Set(
+        authorNodes.flatMap(a => Array.from(a.querySelectorAll("AffiliationInfo > Affiliation")).map(n => textOf(n)))
+    )).filter(Boolean);
+
+    const journal = article?.querySelector("Journal");
+    // Print date first; fall back to the electronic publication date
+    const published = parsePubMedDate(journal?.querySelector("JournalIssue > PubDate") || null)
+        || parsePubMedDate(article?.querySelector("ArticleDate") || null);
+
+    const meshHeadings: MeshHeading[] = Array.from(art.querySelectorAll("MedlineCitation > MeshHeadingList > MeshHeading")).map(h => {
+        const descriptor = h.querySelector("DescriptorName");
+        return {
+            descriptor: textOf(descriptor),
+            majorTopic: descriptor?.getAttribute("MajorTopicYN") === 'Y',
+            qualifiers: Array.from(h.querySelectorAll("QualifierName")).map(q => ({
+                name: textOf(q),
+                majorTopic: q.getAttribute("MajorTopicYN") === 'Y'
+            }))
+        };
+    }).filter(h => h.descriptor);
+
+    const keywords = Array.from(art.querySelectorAll("MedlineCitation > KeywordList > Keyword")).map(k => textOf(k)).filter(Boolean);
+    const publicationTypes = Array.from(article?.querySelectorAll("PublicationTypeList > PublicationType") || []).map(t => textOf(t)).filter(Boolean);
+    const languages = Array.from(article?.querySelectorAll("Language") || []).map(l => textOf(l).toLowerCase()).filter(Boolean);
+
+    const ownId = (type: string) => textOf(art.querySelector(`PubmedData > ArticleIdList > ArticleId[IdType='${type}']`));
+    const pmid = textOf(art.querySelector("MedlineCitation > PMID")) || ownId('pubmed');
+    const doi = ownId('doi') || textOf(article?.querySelector("ELocationID[EIdType='doi']"));
+    const pmcid = ownId('pmc');
+    const indexed = parsePubMedDate(art.querySelector("PubmedData > History > PubMedPubDate[PubStatus='entrez']"));
+
+    return {
+        id: pmid || `pm-${Date.now()}-${index}`,
+        title,
+        abstract: abstractText || "No abstract available.",
+        abstractSections,
+        authors: authors.length ? authors : ["Unknown"],
+        year: published?.year || 0,
+        url: doi ? `https://doi.org/${doi}` : `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
+        source: 'PubMed',
+        doi: doi || undefined,
+        pmid: pmid || undefined,
+        pmcid: pmcid || undefined,
+        venue: textOf(journal?.querySelector("Title")) || undefined,
+        journalAbbrev: textOf(journal?.querySelector("ISOAbbreviation")) || undefined,
+        volume: textOf(journal?.querySelector("JournalIssue > Volume")) || undefined,
+        issue: textOf(journal?.querySelector("JournalIssue > Issue")) || undefined,
+        pages: textOf(article?.querySelector("Pagination > MedlinePgn")) || undefined,
+        publishedDate: published?.date,
+        indexedDate: indexed?.date,
+        meshHeadings: meshHeadings.length ? meshHeadings : undefined,
+        keywords: keywords.length ? keywords : undefined,
+        publicationTypes: publicationTypes.length ? publicationTypes : undefined,
+        languages: languages.length ? languages : undefined,
+        affiliations: affiliations.length ? affiliations : undefined
+    };
+}
+
 /**
  * Step 2: Fetch details for a specific batch of IDs.
  */
@@ -57,17 +252,13 @@ export async function fetchPubMedPapers(
             attempt++;
             
             // EFetch details (heavyweight)
-            const fetchUrl = `https://eutils.ncbi.nlm.nih.gov/entrez/eutils/efetch.fcgi?db=pubmed&id=${ids.join(',')}&retmode=xml`;
-            const fetchRes = await fetch(fetchUrl, { signal });
-            if (!fetchRes.ok) throw new Error(`PubMed Fetch HTTP ${fetchRes.status}`);
+            const fetchRes = await ncbiClient.fetch('efetch.fcgi', { db: 'pubmed', id: ids.join(','), retmode: 'xml' }, signal);
+            if (!fetchRes.ok) throw fetchRes.status === 429 ? new SourceRateLimitError('PubMed') : new Error(`PubMed Fetch HTTP ${fetchRes.status}`);
             
             const textData = await fetchRes.text();
             
             // Check for Empty or Malformed response
-            if (!textData || textData.trim().length === 0) {
-                console.warn("Empty response from PubMed EFetch");
-                return [];
-            }
+            if (!textData || textData.trim().length === 0) throw new Error("Empty response from PubMed EFetch");
 
             const parser = new DOMParser();
             const xmlDoc = parser.parseFromString(textData, "text/xml");
@@ -82,31 +273,7 @@ export async function fetchPubMedPapers(
             
             const papers: Paper[] = [];
             for (let i = 0; i < articles.length; i++) {
-                const art = articles[i];
-                const title = art.querySelector("ArticleTitle")?.textContent || "Untitled";
-                const abstractNodes = art.querySelectorAll("AbstractText");
-                const abstractText = Array.from(abstractNodes).map(n => n.textContent).join(" ");
-                
-                const authors = Array.from(art.querySelectorAll("Author"))
-                    .map(a => `${a.querySelector("LastName")?.textContent || ''} ${a.querySelector("Initials")?.textContent || ''}`.trim())
-                    .filter(n => n.length > 0);
-                
-                const yearStr = art.querySelector("PubDate Year")?.textContent || "2024";
-                const doi = art.querySelector("ArticleId[IdType='doi']")?.textContent;
-                const pmid = art.querySelector("PMID")?.textContent;
-
-                if (title) {
-                    papers.push({
-                        id: pmid || `pm-${Date.now()}-${i}`,
-                        title,
-                        abstract: abstractText || "No abstract available.",
-                        authors: authors.length ? authors : ["Unknown"],
-                        year: parseInt(yearStr),
-                        url: doi ? `https://doi.org/${doi}` : `https://pubmed.ncbi.nlm.nih.gov/${pmid}/`,
-                        source: 'PubMed',
-                        doi: doi || undefined
-                    });
-                }
+                papers.push(mapPubMedArticle(articles[i], i));
             }
             return papers;
 
@@ -114,58 +281,780 @@ export async function fetchPubMedPapers(
             if (e.name === 'AbortError') throw e;
             console.warn(`PubMed Details Retry ${attempt}/${MAX_RETRIES}:`, e);
             
-            if (attempt >= MAX_RETRIES) {
-                console.error("PubMed fetch completely failed.");
-                return []; // Return empty on final failure to allow loop to continue
-            }
+            // The caller records the source as failed; an empty list would pass for "no records"
+            if (attempt >= MAX_RETRIES) throw e;
             // Exponential backoff
-            await new Promise(r => setTimeout(r, 1000 * Math.pow(2, attempt)));
+            await sleep(1000 * Math.pow(2, attempt), signal);
         }
     }
     return [];
 }
 
 /**
- * Real Semantic Scholar Search
- * Updated to support pagination via offset and return total
+ * PubMed-to-PubMed links (elink) for a set of PMIDs, e.g. 'pubmed_pubmed_refs'
+ * (reference list) or 'pubmed_pubmed_citedin' (citing papers).
+ * Links for all input IDs come back as one de-duplicated list.
+ */
+export async function getPubMedLinks(
+    pmids: string[],
+    linkname: string,
+    signal?: AbortSignal
+): Promise<string[]> {
+    if (pmids.length === 0) return [];
+    try {
+        const res = await ncbiClient.fetch('elink.fcgi', {
+            dbfrom: 'pubmed', db: 'pubmed', linkname, id: pmids.join(','), retmode: 'json'
+        }, signal);
+        if (!res.ok) throw res.status === 429 ? new SourceRateLimitError('PubMed') : new Error(`PubMed ELink HTTP ${res.status}`);
+
+        const json = await res.json();
+        const links = (json.linksets || [])
+            .flatMap((set: any) => set.linksetdbs || [])
+            .filter((db: any) => db.linkname === linkname)
+            .flatMap((db: any) => db.links || []);
+        return Array.from(new Set<string>(links.map(String)));
+
+    } catch (e: any) {
+        if (e.name !== 'AbortError' && !(e instanceof SourceRateLimitError)) console.error("PubMed ELink Error:", e);
+        throw e;
+    }
+}
+
+/**
+ * Thrown when a source keeps answering 429 after all retries.
+ * Lets the cycle loop tell "throttled" apart from "no more records".
+ */
+export class SourceRateLimitError extends Error {
+    constructor(public sourceLabel: string, public status: number = 429) {
+        super(`${sourceLabel} rate limit exceeded (HTTP ${status})`);
+        this.name = 'SourceRateLimitError';
+    }
+}
+
+// --- Semantic Scholar ---
+
+const S2_BASE = "https://api.semanticscholar.org/graph/v1";
+const S2_FIELDS = "title,abstract,authors,year,url,externalIds,publicationTypes";
+// The relevance endpoint refuses offset + limit beyond this
+const S2_RELEVANCE_WINDOW = 1000;
+
+let s2ApiKey = "";
+let s2UseBulk = false;
+
+export function configureSemanticScholar(config: { apiKey?: string; useBulkSearch?: boolean }) {
+    s2ApiKey = (config.apiKey || "").trim();
+    s2UseBulk = !!config.useBulkSearch;
+}
+
+/**
+ * fetch() with the S2 API key and retry on 429 / 5xx.
+ * Honours Retry-After, otherwise backs off exponentially.
+ */
+async function fetchSemanticScholar(url: string, init: RequestInit = {}, signal?: AbortSignal): Promise<Response> {
+    const MAX_RETRIES = 4;
+    let attempt = 0;
+
+    while (true) {
+        attempt++;
+        const headers: Record<string, string> = { ...(init.headers as Record<string, string> || {}) };
+        if (s2ApiKey) headers['x-api-key'] = s2ApiKey;
+
+        const res = await fetch(url, { ...init, headers, signal });
+        if (res.ok) return res;
+
+        const retryable = res.status === 429 || res.status >= 500;
+        if (!retryable || attempt >= MAX_RETRIES) {
+            if (res.status === 429) throw new SourceRateLimitError('Semantic Scholar');
+            throw new Error(`Semantic Scholar HTTP ${res.status}`);
+        }
+
+        const retryAfter = parseInt(res.headers.get('Retry-After') || '', 10);
+        const waitMs = retryAfter > 0 ? retryAfter * 1000 : 1000 * Math.pow(2, attempt);
+        console.warn(`Semantic Scholar HTTP ${res.status}, retry ${attempt}/${MAX_RETRIES} in ${waitMs}ms`);
+        await sleep(waitMs, signal);
+    }
+}
+
+/**
+ * Relevance-ranked Semantic Scholar search (offset paging, first 1,000 hits only).
  */
 export async function searchSemanticScholar(
     query: string, 
     limit: number = 20, 
     offset: number = 0,
+    filters?: QueryFilters,
     signal?: AbortSignal
 ): Promise<{ papers: Paper[], total: number }> {
     try {
-        const fields = "title,abstract,authors,year,url,externalIds";
-        const url = `https://api.semanticscholar.org/graph/v1/paper/search?query=${encodeURIComponent(query)}&limit=${limit}&offset=${offset}&fields=${fields}`;
+        if (offset >= S2_RELEVANCE_WINDOW) return { papers: [], total: S2_RELEVANCE_WINDOW };
+        const pageSize = Math.min(limit, S2_RELEVANCE_WINDOW - offset);
+        const url = `${S2_BASE}/paper/search?query=${encodeURIComponent(query)}&limit=${pageSize}&offset=${offset}&fields=${S2_FIELDS}${toSemanticScholarParams(filters)}`;
         
-        const res = await fetch(url, { signal });
-        if (!res.ok) {
-            if (res.status === 429) throw new Error("Semantic Scholar Rate Limit Exceeded");
-            throw new Error(`Semantic Scholar HTTP ${res.status}`);
-        }
-
+        const res = await fetchSemanticScholar(url, {}, signal);
         const data = await res.json();
         const total = data.total || 0;
         
         if (!data.data) return { papers: [], total };
 
-        const papers = data.data.map((item: any) => ({
-            id: item.paperId,
-            title: item.title,
-            abstract: item.abstract || "No abstract available via API.",
-            authors: item.authors ? item.authors.map((a: any) => a.name) : ["Unknown"],
-            year: item.year || new Date().getFullYear(),
-            url: item.url || item.externalIds?.DOI ? `https://doi.org/${item.externalIds.DOI}` : `https://www.semanticscholar.org/paper/${item.paperId}`,
-            source: 'SemanticScholar',
-            doi: item.externalIds?.DOI
-        }));
+        const papers: Paper[] = data.data.map(mapSemanticScholarItem);
 
         return { papers, total };
 
+    } catch (e: any) {
+        if (e.name !== 'AbortError' && !(e instanceof SourceRateLimitError)) console.error("Semantic Scholar Search Error:", e);
+        throw e;
+    }
+}
+
+// Continuation tokens per query, keyed by the offset of the page they open
+const s2BulkTokens = new Map<string, Map<number, string>>();
+// Bulk pages hold up to 1,000 records; keep only the page currently being consumed
+let s2BulkPage: { query: string; start: number; papers: Paper[]; total: number; next: string | null } | null = null;
+
+/**
+ * Semantic Scholar bulk search: unranked, but pages through the whole result
+ * set with continuation tokens instead of stopping at offset 1,000.
+ * Each call returns up to 1,000 records, so one page serves many cycle batches.
+ */
+export async function searchSemanticScholarBulk(
+    query: string,
+    limit: number = 20,
+    offset: number = 0,
+    filters?: QueryFilters,
+    signal?: AbortSignal
+): Promise<{ papers: Paper[], total: number }> {
+    try {
+        const filterParams = toSemanticScholarParams(filters);
+        const cacheKey = query + filterParams;
+        if (!s2BulkTokens.has(cacheKey)) s2BulkTokens.set(cacheKey, new Map());
+        const tokens = s2BulkTokens.get(cacheKey)!;
+
+        // Start from the nearest known page at or before the offset
+        let start = 0;
+        let token: string | null = null;
+        for (const [off, value] of tokens.entries()) {
+            if (off <= offset && off > start) {
+                start = off;
+                token = value;
+            }
+        }
+
+        while (true) {
+            let page = s2BulkPage && s2BulkPage.query === cacheKey && s2BulkPage.start === start ? s2BulkPage : null;
+            if (!page) {
+                const url = `${S2_BASE}/paper/search/bulk?query=${encodeURIComponent(query)}&fields=${S2_FIELDS}${filterParams}${token ? `&token=${encodeURIComponent(token)}` : ''}`;
+                const res = await fetchSemanticScholar(url, {}, signal);
+                const data = await res.json();
+                page = {
+                    query: cacheKey,
+                    start,
+                    papers: (data.data || []).map(mapSemanticScholarItem),
+                    total: data.total || 0,
+                    next: data.token || null
+                };
+                s2BulkPage = page;
+                if (page.next) tokens.set(start + page.papers.length, page.next);
+            }
+
+            if (offset < start + page.papers.length) {
+                return { papers: page.papers.slice(offset - start, offset - start + limit), total: page.total };
+            }
+            if (!page.next || page.papers.length === 0) return { papers: [], total: page.total };
+
+            start += page.papers.length;
+            token = page.next;
+        }
+
+    } catch (e: any) {
+        if (e.name !== 'AbortError' && !(e instanceof SourceRateLimitError)) console.error("Semantic Scholar Bulk Search Error:", e);
+        throw e;
+    }
+}
+
+/**
+ * One hop in the Semantic Scholar citation graph.
+ * 'references' = papers the seed cites, 'citations' = papers citing the seed.
+ * `paperRef` accepts S2 IDs as well as "DOI:..." / "PMID:..." forms.
+ */
+export async function fetchSemanticScholarNeighbours(
+    paperRef: string,
+    direction: 'references' | 'citations',
+    limit: number = 100,
+    signal?: AbortSignal
+): Promise<Paper[]> {
+    try {
+        const url = `${S2_BASE}/paper/${encodeURIComponent(paperRef)}/${direction}?fields=${S2_FIELDS}&limit=${Math.min(limit, 1000)}`;
+        const res = await fetchSemanticScholar(url, {}, signal);
+        const data = await res.json();
+        const key = direction === 'references' ? 'citedPaper' : 'citingPaper';
+        return (data.data || [])
+            .map((edge: any) => edge[key])
+            .filter((item: any) => item && item.paperId && item.title)
+            .map(mapSemanticScholarItem);
+
+    } catch (e: any) {
+        if (e.name === 'AbortError' || e instanceof SourceRateLimitError) throw e;
+        console.error(`Semantic Scholar ${direction} Error:`, e);
+        return [];
+    }
+}
+
+/**
+ * Semantic Scholar detail lookup via the batch endpoint.
+ * Used when only paper IDs are known (e.g. re-hydrating a stored ID list).
+ */
+export async function fetchSemanticScholarPapers(
+    ids: string[],
+    signal?: AbortSignal
+): Promise<Paper[]> {
+    if (ids.length === 0) return [];
+    try {
+        const res = await fetchSemanticScholar(`${S2_BASE}/paper/batch?fields=${S2_FIELDS}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ids })
+        }, signal);
+
+        const data = await res.json();
+        return (Array.isArray(data) ? data : [])
+            .filter((item: any) => item && item.paperId)
+            .map(mapSemanticScholarItem);
+
+    } catch (e: any) {
+        if (e.name !== 'AbortError' && !(e instanceof SourceRateLimitError)) console.error("Semantic Scholar Batch Error:", e);
+        throw e;
+    }
+}
+
+function mapSemanticScholarItem(item: any): Paper {
+    return {
+        id: item.paperId,
+        title: item.title,
+        abstract: item.abstract || "No abstract available via API.",
+        authors: item.authors ? item.authors.map((a: any) => a.name) : ["Unknown"],
+        year: item.year || new Date().getFullYear(),
+        url: item.externalIds?.DOI ? `https://doi.org/${item.externalIds.DOI}` : (item.url || `https://www.semanticscholar.org/paper/${item.paperId}`),
+        source: 'SemanticScholar',
+        doi: item.externalIds?.DOI,
+        pmid: item.externalIds?.PubMed ? String(item.externalIds.PubMed) : undefined,
+        pmcid: item.externalIds?.PubMedCentral ? `PMC${String(item.externalIds.PubMedCentral).replace(/^PMC/i, '')}` : undefined,
+        publicationTypes: fromSemanticScholarTypes(item.publicationTypes)
+    };
+}
+
+// --- Cursor Paging ---
+
+interface CursorPage<T> {
+    results: T[];
+    total: number;
+    nextCursor: string | null;
+}
+
+/**
+ * Offset-style access for APIs that only page by cursor (OpenAlex, Europe PMC).
+ * Cursors are cached per query/offset; an offset without a cached cursor is
+ * reached by walking forward from the nearest known one with ID-only pages.
+ */
+async function fetchCursorWindow<T>(
+    cache: Map<string, Map<number, string>>,
+    query: string,
+    offset: number,
+    limit: number,
+    firstCursor: string,
+    maxStep: number,
+    fetchPage: (cursor: string, count: number, idsOnly: boolean) => Promise<CursorPage<T>>
+): Promise<{ results: T[]; total: number }> {
+    if (!cache.has(query)) cache.set(query, new Map());
+    const cursors = cache.get(query)!;
+
+    let position = 0;
+    let cursor: string | null = firstCursor;
+    for (const [off, value] of cursors.entries()) {
+        if (off <= offset && off > position) {
+            position = off;
+            cursor = value;
+        }
+    }
+
+    let total = 0;
+    while (position < offset && cursor) {
+        const page = await fetchPage(cursor, Math.min(maxStep, offset - position), true);
+        total = page.total;
+        if (page.results.length === 0) return { results: [], total };
+        position += page.results.length;
+        cursor = page.nextCursor;
+        if (cursor) cursors.set(position, cursor);
+    }
+    if (!cursor) return { results: [], total };
+
+    const page = await fetchPage(cursor, limit, false);
+    if (page.nextCursor) cursors.set(offset + page.results.length, page.nextCursor);
+    return { results: page.results, total: page.total };
+}
+
+// --- OpenAlex ---
+
+const OPENALEX_FIELDS = "id,ids,doi,display_name,publication_year,authorships,primary_location,abstract_inverted_index";
+
+const openAlexCursors = new Map<string, Map<number, string>>();
+
+/**
+ * OpenAlex ships abstracts as an inverted index ({ word: [positions] }).
+ * Rebuilds the plain text by placing every word back at its positions.
+ */
+export function reconstructAbstract(invertedIndex?: Record<string, number[]> | null): string {
+    if (!invertedIndex) return "";
+    const words: string[] = [];
+    for (const [word, positions] of Object.entries(invertedIndex)) {
+        positions.forEach(pos => { words[pos] = word; });
+    }
+    return words.filter(w => w !== undefined).join(" ");
+}
+
+function mapOpenAlexWork(work: any): Paper {
+    const id = String(work.id || "").replace("https://openalex.org/", "");
+    const doi = work.doi ? String(work.doi).replace(/^https?:\/\/doi\.org\//i, "") : undefined;
+    const authors = (work.authorships || [])
+        .map((a: any) => a.author?.display_name)
+        .filter((n: any) => !!n);
+
+    return {
+        id: id || `oa-${Date.now()}`,
+        title: work.display_name || work.title || "Untitled",
+        abstract: reconstructAbstract(work.abstract_inverted_index) || "No abstract available via API.",
+        authors: authors.length ? authors : ["Unknown"],
+        year: work.publication_year || new Date().getFullYear(),
+        url: doi ? `https://doi.org/${doi}` : (work.primary_location?.landing_page_url || work.id),
+        source: 'OpenAlex',
+        doi,
+        pmid: work.ids?.pmid ? String(work.ids.pmid).replace(/\D/g, '') : undefined,
+        pmcid: work.ids?.pmcid ? `PMC${String(work.ids.pmcid).replace(/\D/g, '')}` : undefined,
+        venue: work.primary_location?.source?.display_name || undefined
+    };
+}
+
+async function fetchOpenAlexPage(
+    query: string,
+    filter: string,
+    cursor: string,
+    perPage: number,
+    select: string,
+    signal?: AbortSignal
+): Promise<CursorPage<any>> {
+    const MAX_RETRIES = 3;
+    let attempt = 0;
+
+    while (attempt < MAX_RETRIES) {
+        try {
+            attempt++;
+            const url = `https://api.openalex.org/works?search=${encodeURIComponent(query)}${filter ? `&filter=${encodeURIComponent(filter)}` : ''}&per_page=${perPage}&cursor=${encodeURIComponent(cursor)}&select=${select}`;
+            const res = await fetch(url, { signal });
+            if (!res.ok) throw new Error(`OpenAlex HTTP ${res.status}`);
+
+            const data = await res.json();
+            return {
+                results: data.results || [],
+                total: data.meta?.count || 0,
+                nextCursor: data.meta?.next_cursor || null
+            };
+        } catch (e: any) {
+            if (e.name === 'AbortError') throw e;
+            console.warn(`OpenAlex Search Retry ${attempt}/${MAX_RETRIES}`, e);
+            if (attempt >= MAX_RETRIES) throw e;
+            await sleep(1000 * attempt, signal); // Linear backoff
+        }
+    }
+    return { results: [], total: 0, nextCursor: null };
+}
+
+/**
+ * OpenAlex search with cursor paging (no 10k offset ceiling).
+ */
+export async function searchOpenAlex(
+    query: string,
+    limit: number = 20,
+    offset: number = 0,
+    filters?: QueryFilters,
+    signal?: AbortSignal
+): Promise<{ papers: Paper[], total: number }> {
+    try {
+        const filter = toOpenAlexFilter(filters);
+        const { results, total } = await fetchCursorWindow(
+            openAlexCursors, `${query}|${filter}`, offset, limit, "*", 200,
+            (cursor, count, idsOnly) => fetchOpenAlexPage(query, filter, cursor, count, idsOnly ? "id" : OPENALEX_FIELDS, signal)
+        );
+        return { papers: results.map(mapOpenAlexWork), total };
+
+    } catch (e: any) {
+        if (e.name !== 'AbortError') console.error("OpenAlex Search Error:", e);
+        throw e;
+    }
+}
+
+/**
+ * OpenAlex detail lookup by Work ID (W123...). The filter accepts up to 100 OR'd IDs.
+ */
+export async function fetchOpenAlexPapers(
+    ids: string[],
+    signal?: AbortSignal
+): Promise<Paper[]> {
+    if (ids.length === 0) return [];
+    try {
+        const papers: Paper[] = [];
+        for (let i = 0; i < ids.length; i += 100) {
+            const chunk = ids.slice(i, i + 100);
+            const url = `https://api.openalex.org/works?filter=openalex:${chunk.join('|')}&per_page=${chunk.length}&select=${OPENALEX_FIELDS}`;
+            const res = await fetch(url, { signal });
+            if (!res.ok) throw new Error(`OpenAlex HTTP ${res.status}`);
+            const data = await res.json();
+            papers.push(...(data.results || []).map(mapOpenAlexWork));
+        }
+        return papers;
+
+    } catch (e: any) {
+        if (e.name !== 'AbortError') console.error("OpenAlex Fetch Error:", e);
+        throw e;
+    }
+}
+
+// --- Europe PMC ---
+
+const EUROPE_PMC_BASE = "https://www.ebi.ac.uk/europepmc/webservices/rest";
+
+const europePmcCursors = new Map<string, Map<number, string>>();
+
+function mapEuropePMCResult(r: any): Paper {
+    const authors = (r.authorList?.author || [])
+        .map((a: any) => a.fullName || `${a.lastName || ''} ${a.initials || ''}`.trim())
+        .filter((n: string) => n.length > 0);
+    const doi = r.doi || undefined;
+    const pmid = r.pmid || undefined;
+    const pmcid = r.pmcid || undefined;
+
+    return {
+        id: pmid || pmcid || `${r.source}:${r.id}`,
+        title: (r.title || "Untitled").replace(/<[^>]+>/g, ''),
+        abstract: (r.abstractText || "").replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim() || "No abstract available.",
+        authors: authors.length ? authors : (r.authorString ? r.authorString.split(', ') : ["Unknown"]),
+        year: parseInt(r.pubYear) || new Date().getFullYear(),
+        url: doi ? `https://doi.org/${doi}` : (pmcid ? `https://europepmc.org/article/PMC/${pmcid}` : `https://europepmc.org/article/${r.source}/${r.id}`),
+        source: 'EuropePMC',
+        doi,
+        pmid,
+        pmcid,
+        isOpenAccess: r.isOpenAccess === 'Y',
+        venue: r.journalInfo?.journal?.title || r.bookOrReportDetails?.publisher || undefined,
+        isPreprint: r.source === 'PPR' || undefined,
+        preprintServer: r.source === 'PPR' ? r.bookOrReportDetails?.publisher : undefined
+    };
+}
+
+async function fetchEuropePMCPage(
+    query: string,
+    cursor: string,
+    pageSize: number,
+    resultType: 'idlist' | 'core',
+    signal?: AbortSignal
+): Promise<CursorPage<any>> {
+    const MAX_RETRIES = 3;
+    let attempt = 0;
+
+    while (attempt < MAX_RETRIES) {
+        try {
+            attempt++;
+            const url = `${EUROPE_PMC_BASE}/search?query=${encodeURIComponent(query)}&format=json&resultType=${resultType}&pageSize=${pageSize}&cursorMark=${encodeURIComponent(cursor)}`;
+            const res = await fetch(url, { signal });
+            if (!res.ok) throw new Error(`Europe PMC HTTP ${res.status}`);
+
+            const data = await res.json();
+            const results = data.resultList?.result || [];
+            // Europe PMC repeats the current cursor once the result set is exhausted
+            const nextCursor = data.nextCursorMark && data.nextCursorMark !== cursor ? data.nextCursorMark : null;
+            return { results, total: data.hitCount || 0, nextCursor };
+        } catch (e: any) {
+            if (e.name === 'AbortError') throw e;
+            console.warn(`Europe PMC Search Retry ${attempt}/${MAX_RETRIES}`, e);
+            if (attempt >= MAX_RETRIES) throw e;
+            await sleep(1000 * attempt, signal); // Linear backoff
+        }
+    }
+    return { results: [], total: 0, nextCursor: null };
+}
+
+/**
+ * Europe PMC search (MEDLINE + PMC + preprints + agricultural records) with cursor paging.
+ */
+export async function searchEuropePMC(
+    query: string,
+    limit: number = 20,
+    offset: number = 0,
+    signal?: AbortSignal
+): Promise<{ papers: Paper[], total: number }> {
+    try {
+        const { results, total } = await fetchCursorWindow(
+            europePmcCursors, query, offset, limit, "*", 1000,
+            (cursor, count, idsOnly) => fetchEuropePMCPage(query, cursor, count, idsOnly ? 'idlist' : 'core', signal)
+        );
+        return { papers: results.map(mapEuropePMCResult), total };
+
+    } catch (e: any) {
+        if (e.name !== 'AbortError') console.error("Europe PMC Search Error:", e);
+        throw e;
+    }
+}
+
+/**
+ * Europe PMC detail lookup by PMID or PMCID.
+ */
+export async function fetchEuropePMCPapers(
+    ids: string[],
+    signal?: AbortSignal
+): Promise<Paper[]> {
+    if (ids.length === 0) return [];
+    try {
+        const clauses = ids.map(id => /^PMC\d+$/i.test(id) ? `PMCID:${id}` : (/^\d+$/.test(id) ? `(EXT_ID:${id} AND SRC:MED)` : `EXT_ID:${id}`));
+        const { results } = await fetchEuropePMCPage(clauses.join(' OR '), "*", ids.length, 'core', signal);
+        return results.map(mapEuropePMCResult);
+
+    } catch (e: any) {
+        if (e.name !== 'AbortError') console.error("Europe PMC Fetch Error:", e);
+        throw e;
+    }
+}
+
+/**
+ * Retrieves the open-access full text (JATS XML) for a PMC article and flattens the
+ * <body> into plain paragraphs. Back matter (references, acknowledgements) is excluded.
+ * Returns "" when the article is not in the OA subset.
+ */
+export async function fetchEuropePMCFullText(
+    pmcid: string,
+    signal?: AbortSignal
+): Promise<string> {
+    if (!pmcid) return "";
+    try {
+        const id = pmcid.toUpperCase().startsWith('PMC') ? pmcid.toUpperCase() : `PMC${pmcid}`;
+        const res = await fetch(`${EUROPE_PMC_BASE}/${id}/fullTextXML`, { signal });
+        if (!res.ok) return "";
+
+        const xmlDoc = new DOMParser().parseFromString(await res.text(), "text/xml");
+        if (xmlDoc.getElementsByTagName("parsererror").length > 0) return "";
+
+        const body = xmlDoc.querySelector("body");
+        if (!body) return "";
+
+        const blocks: string[] = [];
+        body.querySelectorAll("sec > title, p").forEach(el => {
+            const t = (el.textContent || "").replace(/\s+/g, ' ').trim();
+            if (!t) return;
+            blocks.push(el.tagName.toLowerCase() === 'title' ? `## ${t}` : t);
+        });
+
+        const text = blocks.join("\n\n").substring(0, MAX_FULL_TEXT_CHARS);
+        console.log(`[EUROPE PMC] Retrieved ${text.length} chars of full text for ${id}`);
+        return text;
+
     } catch (e: any) {
         if (e.name === 'AbortError') throw e;
-        console.error("Semantic Scholar Search Error:", e);
-        return { papers: [], total: 0 };
+        console.warn(`[EUROPE PMC] Full text retrieval failed for ${pmcid}`, e);
+        return "";
+    }
+}
+
+// --- Preprints ---
+
+export type PreprintServer = 'bioRxiv' | 'medRxiv';
+
+/**
+ * bioRxiv / medRxiv search. Their own API only lists by date or DOI, so keyword
+ * search goes through Europe PMC's preprint index filtered by publisher.
+ */
+export async function searchPreprintServer(
+    server: PreprintServer,
+    query: string,
+    limit: number = 20,
+    offset: number = 0,
+    signal?: AbortSignal
+): Promise<{ papers: Paper[], total: number }> {
+    const scopedQuery = `(${query}) AND SRC:PPR AND PUBLISHER:"${server}"`;
+    const { papers, total } = await searchEuropePMC(scopedQuery, limit, offset, signal);
+    return {
+        papers: papers.map(p => ({ ...p, source: server, isPreprint: true, preprintServer: server })),
+        total
+    };
+}
+
+function mapArxivEntry(entry: Element): Paper {
+    const text = (tag: string) => (entry.getElementsByTagName(tag)[0]?.textContent || "").replace(/\s+/g, ' ').trim();
+    const absUrl = text("id");
+    const arxivId = absUrl.replace(/^https?:\/\/arxiv\.org\/abs\//, '').replace(/v\d+$/, '');
+    const authors = Array.from(entry.getElementsByTagName("author"))
+        .map(a => (a.getElementsByTagName("name")[0]?.textContent || "").trim())
+        .filter(n => n.length > 0);
+    const doi = text("arxiv:doi") || undefined;
+    const journalRef = text("arxiv:journal_ref");
+
+    return {
+        id: arxivId || `arxiv-${Date.now()}`,
+        title: text("title") || "Untitled",
+        abstract: text("summary") || "No abstract available.",
+        authors: authors.length ? authors : ["Unknown"],
+        year: parseInt(text("published").slice(0, 4)) || new Date().getFullYear(),
+        url: `https://arxiv.org/abs/${arxivId}`,
+        source: 'arXiv',
+        doi,
+        venue: journalRef || undefined,
+        isPreprint: true,
+        preprintServer: 'arXiv'
+    };
+}
+
+async function fetchArxivFeed(params: string, signal?: AbortSignal): Promise<{ papers: Paper[], total: number }> {
+    const MAX_RETRIES = 3;
+    let attempt = 0;
+
+    while (attempt < MAX_RETRIES) {
+        try {
+            attempt++;
+            const res = await fetch(`https://export.arxiv.org/api/query?${params}`, { signal });
+            if (!res.ok) throw new Error(`arXiv HTTP ${res.status}`);
+
+            const xmlDoc = new DOMParser().parseFromString(await res.text(), "text/xml");
+            if (xmlDoc.getElementsByTagName("parsererror").length > 0) throw new Error("XML Parse Error");
+
+            const total = parseInt(xmlDoc.getElementsByTagName("opensearch:totalResults")[0]?.textContent || '0', 10);
+            const papers = Array.from(xmlDoc.getElementsByTagName("entry")).map(mapArxivEntry);
+            return { papers, total };
+        } catch (e: any) {
+            if (e.name === 'AbortError') throw e;
+            console.warn(`arXiv Retry ${attempt}/${MAX_RETRIES}`, e);
+            if (attempt >= MAX_RETRIES) throw e;
+            await sleep(3000 * attempt, signal); // arXiv asks for 3s between calls
+        }
+    }
+    return { papers: [], total: 0 };
+}
+
+/**
+ * arXiv search via the Atom export API. Boolean operators, phrases and parentheses
+ * in the query are kept (see toArxivQuery).
+ */
+export async function searchArxiv(
+    query: string,
+    limit: number = 20,
+    offset: number = 0,
+    filters?: QueryFilters,
+    signal?: AbortSignal
+): Promise<{ papers: Paper[], total: number }> {
+    try {
+        const terms = toArxivQuery(query, filters);
+        return await fetchArxivFeed(`search_query=${encodeURIComponent(terms)}&start=${offset}&max_results=${limit}&sortBy=relevance`, signal);
+    } catch (e: any) {
+        if (e.name !== 'AbortError') console.error("arXiv Search Error:", e);
+        throw e;
+    }
+}
+
+export async function fetchArxivPapers(
+    ids: string[],
+    signal?: AbortSignal
+): Promise<Paper[]> {
+    if (ids.length === 0) return [];
+    try {
+        const { papers } = await fetchArxivFeed(`id_list=${ids.join(',')}&max_results=${ids.length}`, signal);
+        return papers;
+    } catch (e: any) {
+        if (e.name !== 'AbortError') console.error("arXiv Fetch Error:", e);
+        throw e;
     }
 }
+
+// --- Source Adapters ---
+
+export const pubMedSource: PaperSource = {
+    id: 'PUBMED',
+    label: 'PubMed',
+    search: (query, offset, limit, filters, signal) => getPubMedIds(toPubMedTerm(query, filters), offset, limit, signal),
+    fetchDetails: (ids, signal) => fetchPubMedPapers(ids, signal)
+};
+
+/**
+ * PubMed "similar articles" (elink pubmed_pubmed) for a fixed seed PMID list.
+ * Built per queue item rather than registered, since the seeds are the query.
+ * The neighbour list is fetched once and then paged locally.
+ */
+export function createPubMedSimilarSource(seedPmids: string[]): PaperSource {
+    let neighbours: string[] | null = null;
+    return {
+        id: 'PUBMED_SIMILAR',
+        label: `PubMed Similar Articles (${seedPmids.length} seed${seedPmids.length === 1 ? '' : 's'})`,
+        // Filters are not applied by elink; the cycle loop post-filters on the fetched metadata,
+        // watch mode's addedSince included (checked against the Entrez date)
+        search: async (_query, offset, limit, _filters, signal) => {
+            if (!neighbours) {
+                const seeds = new Set(seedPmids);
+                neighbours = (await getPubMedLinks(seedPmids, 'pubmed_pubmed', signal)).filter(id => !seeds.has(id));
+            }
+            return { ids: neighbours.slice(offset, offset + limit), total: neighbours.length };
+        },
+        fetchDetails: (ids, signal) => fetchPubMedPapers(ids, signal)
+    };
+}
+
+export const semanticScholarSource: PaperSource = {
+    id: 'SEMANTIC',
+    label: 'Semantic Scholar',
+    search: async (query, offset, limit, filters, signal) => {
+        const search = s2UseBulk ? searchSemanticScholarBulk : searchSemanticScholar;
+        const { papers, total } = await search(query, limit, offset, filters, signal);
+        return { ids: papers.map(p => p.id), total, papers };
+    },
+    fetchDetails: (ids, signal) => fetchSemanticScholarPapers(ids, signal),
+    unsupportedFilters: ['language'],
+    approximateAddedSince: true
+};
+
+export const openAlexSource: PaperSource = {
+    id: 'OPENALEX',
+    label: 'OpenAlex',
+    search: async (query, offset, limit, filters, signal) => {
+        const { papers, total } = await searchOpenAlex(query, limit, offset, filters, signal);
+        return { ids: papers.map(p => p.id), total, papers };
+    },
+    fetchDetails: (ids, signal) => fetchOpenAlexPapers(ids, signal)
+};
+
+export const europePmcSource: PaperSource = {
+    id: 'EUROPEPMC',
+    label: 'Europe PMC',
+    search: async (query, offset, limit, filters, signal) => {
+        const { papers, total } = await searchEuropePMC(toEuropePMCQuery(query, filters), limit, offset, signal);
+        return { ids: papers.map(p => p.id), total, papers };
+    },
+    fetchDetails: (ids, signal) => fetchEuropePMCPapers(ids, signal)
+};
+
+const preprintServerSource = (server: PreprintServer): PaperSource => ({
+    id: server.toUpperCase(),
+    label: server,
+    search: async (query, offset, limit, filters, signal) => {
+        const { papers, total } = await searchPreprintServer(server, toEuropePMCQuery(query, filters), limit, offset, signal);
+        return { ids: papers.map(p => p.id), total, papers };
+    },
+    fetchDetails: async (ids, signal) => (await fetchEuropePMCPapers(ids, signal))
+        .map(p => ({ ...p, source: server, isPreprint: true, preprintServer: server }))
+});
+
+export const bioRxivSource = preprintServerSource('bioRxiv');
+export const medRxivSource = preprintServerSource('medRxiv');
+
+export const arxivSource: PaperSource = {
+    id: 'ARXIV',
+    label: 'arXiv',
+    search: async (query, offset, limit, filters, signal) => {
+        const { papers, total } = await searchArxiv(query, limit, offset, filters, signal);
+        return { ids: papers.map(p => p.id), total, papers };
+    },
+    fetchDetails: (ids, signal) => fetchArxivPapers(ids, signal),
+    unsupportedFilters: ['language', 'includeTypes', 'excludeTypes']
+};
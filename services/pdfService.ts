@@ -0,0 +1,77 @@
+import { MAX_FULL_TEXT_CHARS } from "../constants";
+
+// In-browser PDF text extraction with pdf.js, loaded on first use so the
+// bundle only pays for it when a landing page falls back to the PDF.
+
+const MAX_PAGES = 100;
+
+// Headings that end the body text; everything after is citations
+const REFERENCE_HEADING = /^\s*(\d+\.?\s*)?(references( and notes| cited)?|bibliography|literature cited|works cited)\s*:?\s*$/i;
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist')> | null = null;
+
+function loadPdfJs() {
+  if (!pdfjsPromise) {
+    pdfjsPromise = import('pdfjs-dist').then(pdfjs => {
+      // Worker must match the library build exactly, so it is resolved through the
+      // import map's "pdfjs-dist/" entry (same CDN and version range as the library)
+      pdfjs.GlobalWorkerOptions.workerSrc = import.meta.resolve('pdfjs-dist/build/pdf.worker.min.mjs');
+      return pdfjs;
+    });
+  }
+  return pdfjsPromise;
+}
+
+// Paywalls often answer a PDF link with an HTML page and a 200
+export function isPdfData(data: ArrayBuffer): boolean {
+  const head = new Uint8Array(data, 0, Math.min(1024, data.byteLength));
+  return new TextDecoder('latin1').decode(head).includes('%PDF-');
+}
+
+/**
+ * Cuts the text at the reference list. Only a heading in the back half counts,
+ * so a table of contents or an in-text "References" mention does not truncate the body.
+ */
+export function stripReferences(text: string): string {
+  const lines = text.split('\n');
+  const half = Math.floor(lines.length / 2);
+  for (let i = half; i < lines.length; i++) {
+    if (REFERENCE_HEADING.test(lines[i])) return lines.slice(0, i).join('\n').trim();
+  }
+  return text;
+}
+
+/**
+ * Plain text of a PDF, line breaks preserved, hyphenated line ends joined
+ * and the reference list removed.
+ */
+export async function extractPdfText(data: ArrayBuffer): Promise<string> {
+  const pdfjs = await loadPdfJs();
+  const doc = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+
+  try {
+    const pages: string[] = [];
+    let length = 0;
+    for (let n = 1; n <= Math.min(doc.numPages, MAX_PAGES) && length < MAX_FULL_TEXT_CHARS * 2; n++) {
+      const page = await doc.getPage(n);
+      const content = await page.getTextContent();
+      let pageText = "";
+      content.items.forEach(item => {
+        if (!('str' in item)) return;
+        pageText += item.str + (item.hasEOL ? '\n' : '');
+      });
+      pages.push(pageText);
+      length += pageText.length;
+      page.cleanup();
+    }
+
+    const text = pages.join('\n')
+      .replace(/(\w)-\n(\w)/g, '$1$2')
+      .replace(/[ \t]+/g, ' ')
+      .replace(/\n{3,}/g, '\n\n');
+
+    return stripReferences(text).substring(0, MAX_FULL_TEXT_CHARS);
+  } finally {
+    doc.destroy();
+  }
+}
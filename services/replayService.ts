@@ -0,0 +1,233 @@
+
+export type ReplayMode = 'off' | 'record' | 'replay';
+
+/**
+ * One captured HTTP exchange. Only what parsing needs is kept: no request
+ * headers, and credentials are stripped from the URL before it is stored.
+ */
+export interface RecordedExchange {
+  key: string;
+  method: string;
+  url: string;
+  requestBody?: string;
+  status: number;
+  statusText: string;
+  contentType?: string;
+  body: string;
+  bodyEncoding?: 'base64'; // Binary responses (PDFs)
+}
+
+export interface ReplayFixture {
+  version: 1;
+  recordedAt: string;
+  exchanges: RecordedExchange[];
+}
+
+export class ReplayMissError extends Error {
+  constructor(public method: string, public url: string) {
+    super(`No recorded response for ${method} ${url}`);
+    this.name = 'ReplayMissError';
+  }
+}
+
+// Query params that carry credentials or client identity, never part of the match key
+const VOLATILE_PARAMS = ['api_key', 'key', 'email', 'tool'];
+
+// Watch mode's addedSince bound (mindate, [edat], CREATION_DATE, from_created_date,
+// submittedDate) is the day of the previous run, so a fixture would never match a later replay
+const DATE_VALUE = /\b\d{4}([-/])\d{2}\1\d{2}\b/g;
+const ARXIV_DATE = /(submittedDate:\[)\d{12}/g;
+
+function normalizeUrl(raw: string): string {
+  try {
+    const url = new URL(raw);
+    VOLATILE_PARAMS.forEach(p => url.searchParams.delete(p));
+    url.searchParams.sort();
+    return url.toString();
+  } catch (e) {
+    return raw;
+  }
+}
+
+// Match key form of a normalized URL: dates in query values are masked
+function maskDates(normalized: string): string {
+  try {
+    const url = new URL(normalized);
+    const params = Array.from(url.searchParams.entries());
+    url.search = '';
+    params.forEach(([name, value]) => url.searchParams.append(name, value.replace(DATE_VALUE, '<date>').replace(ARXIV_DATE, '$1<date>')));
+    return url.toString();
+  } catch (e) {
+    return normalized;
+  }
+}
+
+// FNV-1a, enough to tell request bodies (prompts, embedding inputs) apart in a key
+function hashBody(body: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < body.length; i++) {
+    h ^= body.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16);
+}
+
+// Anything not textual is stored as base64 so PDFs survive the JSON round trip
+function isBinary(contentType?: string | null): boolean {
+  return !!contentType && !/^text\/|json|xml|javascript|x-www-form-urlencoded/i.test(contentType);
+}
+
+function toBase64(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(data: string): Uint8Array {
+  return Uint8Array.from(atob(data), c => c.charCodeAt(0));
+}
+
+function exchangeKey(method: string, url: string, body?: string): string {
+  return `${method} ${maskDates(url)}${body ? ` #${hashBody(body)}` : ''}`;
+}
+
+/**
+ * Record/replay layer over the global fetch, so every service (NCBI, S2, OpenAlex,
+ * Ollama, Gemini, Zotero, the scraper) is captured without changes of its own.
+ * Replay is deterministic: identical requests get their recorded responses in
+ * recorded order (the last one repeats), and anything unrecorded fails with
+ * ReplayMissError instead of reaching the network.
+ */
+class ReplayService {
+  private mode: ReplayMode = 'off';
+  private exchanges: RecordedExchange[] = [];
+  private byKey = new Map<string, RecordedExchange[]>();
+  private cursors = new Map<string, number>();
+  private realFetch?: typeof fetch;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Wraps globalThis.fetch once. `?replay=<fixture url>` in the page URL loads
+   * that fixture and starts in replay mode, for unattended offline runs.
+   */
+  install() {
+    if (this.realFetch) return;
+    const realFetch = globalThis.fetch.bind(globalThis);
+    this.realFetch = realFetch;
+    globalThis.fetch = (input: RequestInfo | URL, init?: RequestInit) => this.handle(input, init);
+
+    const fixtureUrl = new URLSearchParams(globalThis.location?.search || '').get('replay');
+    if (fixtureUrl) {
+      realFetch(fixtureUrl)
+        .then(res => res.json())
+        .then((fixture: ReplayFixture) => {
+          this.loadFixture(fixture);
+          this.setMode('replay');
+        })
+        .catch(e => console.error(`Failed to load replay fixture ${fixtureUrl}`, e));
+    }
+  }
+
+  getMode(): ReplayMode {
+    return this.mode;
+  }
+
+  setMode(mode: ReplayMode) {
+    this.mode = mode;
+    this.cursors.clear();
+    this.notify();
+  }
+
+  get count(): number {
+    return this.exchanges.length;
+  }
+
+  loadFixture(fixture: ReplayFixture) {
+    if (fixture?.version !== 1 || !Array.isArray(fixture.exchanges)) {
+      throw new Error("Not a replay fixture (expected version 1 with an exchanges array)");
+    }
+    this.exchanges = [];
+    this.byKey.clear();
+    // Keys are rebuilt so fixtures recorded before a key change still match
+    fixture.exchanges.forEach(ex => this.store({ ...ex, key: exchangeKey(ex.method, ex.url, ex.requestBody) }));
+    this.cursors.clear();
+    this.notify();
+  }
+
+  exportFixture(): ReplayFixture {
+    return { version: 1, recordedAt: new Date().toISOString(), exchanges: this.exchanges };
+  }
+
+  clear() {
+    this.exchanges = [];
+    this.byKey.clear();
+    this.cursors.clear();
+    this.notify();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify() {
+    this.listeners.forEach(l => l());
+  }
+
+  private store(ex: RecordedExchange) {
+    this.exchanges.push(ex);
+    const list = this.byKey.get(ex.key) || [];
+    list.push(ex);
+    this.byKey.set(ex.key, list);
+  }
+
+  private async handle(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const realFetch = this.realFetch!;
+    if (this.mode === 'off') return realFetch(input, init);
+
+    const request = new Request(input, init);
+    const method = request.method.toUpperCase();
+    const url = normalizeUrl(request.url);
+    const requestBody = method === 'GET' || method === 'HEAD' ? undefined : await request.clone().text();
+    const key = exchangeKey(method, url, requestBody);
+
+    if (this.mode === 'replay') {
+      if (request.signal.aborted) throw new DOMException('Aborted', 'AbortError');
+      const recorded = this.byKey.get(key);
+      if (!recorded) throw new ReplayMissError(method, url);
+      const cursor = this.cursors.get(key) || 0;
+      this.cursors.set(key, cursor + 1);
+      const ex = recorded[Math.min(cursor, recorded.length - 1)];
+      // Null-body statuses reject even an empty string
+      const body = ex.bodyEncoding === 'base64' ? fromBase64(ex.body) : ex.body;
+      return new Response([204, 205, 304].includes(ex.status) ? null : body, {
+        status: ex.status,
+        statusText: ex.statusText,
+        headers: ex.contentType ? { 'Content-Type': ex.contentType } : undefined
+      });
+    }
+
+    const response = await realFetch(input, init);
+    // Opaque (no-cors) responses have no readable body worth keeping
+    if (response.type !== 'opaque') {
+      const contentType = response.headers.get('Content-Type') || undefined;
+      const binary = isBinary(contentType);
+      const body = binary ? toBase64(await response.clone().arrayBuffer()) : await response.clone().text();
+      this.store({
+        key, method, url, requestBody,
+        status: response.status,
+        statusText: response.statusText,
+        contentType,
+        body,
+        bodyEncoding: binary ? 'base64' : undefined
+      });
+      this.notify();
+    }
+    return response;
+  }
+}
+
+export const replayService = new ReplayService();
@@ -0,0 +1,89 @@
+
+import { FullTextExtract } from "../types";
+
+const DB_NAME = 'ecoscholar_scrape_cache';
+const STORE = 'extracts';
+
+interface CachedExtractRecord {
+  key: string; // "url:<url>" or "doi:<kind>:<doi>"
+  url: string;
+  text: string;
+  sections: FullTextExtract['sections'];
+  strategy?: string;
+  timestamp: number;
+  length: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Null when IndexedDB is unavailable (private windows, tests): the cache then never hits
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'key' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("[SCRAPE CACHE] IndexedDB unavailable", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> {
+  return openDb().then(db => new Promise(resolve => {
+    if (!db) return resolve(null);
+    try {
+      const request = action(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    } catch (e) {
+      resolve(null);
+    }
+  }));
+}
+
+export type ScrapeCacheKind = 'page' | 'pdf';
+
+// The requested URL first; the DOI key is scoped by kind so a landing page never answers for the PDF
+export function scrapeCacheKeys(url: string, doi: string | undefined, kind: ScrapeCacheKind): string[] {
+  return [url ? `url:${url}` : '', doi ? `doi:${kind}:${doi.toLowerCase()}` : ''].filter(Boolean);
+}
+
+/**
+ * First fresh entry among `keys` (URL before DOI). Expired entries are ignored, not deleted.
+ */
+export async function getCachedExtract(keys: string[], ttlMs: number): Promise<FullTextExtract | null> {
+  for (const key of keys) {
+    const record = await run<CachedExtractRecord | undefined>('readonly', store => store.get(key));
+    if (record && Date.now() - record.timestamp < ttlMs) {
+      return { text: record.text, sections: record.sections, strategy: record.strategy, url: record.url, cachedAt: record.timestamp };
+    }
+  }
+  return null;
+}
+
+export async function putCachedExtract(keys: string[], url: string, extract: FullTextExtract): Promise<void> {
+  const timestamp = Date.now();
+  for (const key of keys) {
+    await run('readwrite', store => store.put({
+      key, url,
+      text: extract.text,
+      sections: extract.sections,
+      strategy: extract.strategy,
+      timestamp,
+      length: extract.text.length
+    } as CachedExtractRecord));
+  }
+}
+
+export async function countScrapeCache(): Promise<number> {
+  return (await run<number>('readonly', store => store.count())) || 0;
+}
+
+export async function clearScrapeCache(): Promise<void> {
+  await run('readwrite', store => store.clear());
+}
@@ -1,7 +1,68 @@
+import { NetworkLog, FullTextExtract, ScraperProfile, ScrapeFailure } from "../types";
+import { DEFAULT_CORS_PROXY, DEFAULT_SCRAPER_PROFILES, DEFAULT_SCRAPE_CACHE_TTL_DAYS, MAX_FULL_TEXT_CHARS } from "../constants";
+import { extractPdfText, isPdfData } from "./pdfService";
+import { splitFullTextSections, markPdfHeadings } from "./fullTextService";
+import { scrapeCacheKeys, getCachedExtract, putCachedExtract, ScrapeCacheKind } from "./scrapeCacheService";
+
 // Implements the "Cluster Density Hunting" algorithm from the Python script
 // adapted for the Browser DOM API.
 
+// Below this the landing page probably only carried the abstract
+const MIN_HTML_CHARS = 2500;
+
+// A profile body shorter than this means its selectors no longer match the layout
+const MIN_PROFILE_CHARS = 500;
+
+const EMPTY_EXTRACT: FullTextExtract = { text: "", sections: [] };
+
+interface ProxyResult {
+  response: Response | null;
+  attempted: boolean; // False when the proxy is disabled
+  status?: number;
+  error?: string;
+}
+
+const NOISE_TAGS = ['script', 'style', 'nav', 'footer', 'header', 'meta', 'noscript', 'aside', 'form', 'button', 'input', 'iframe', 'svg'];
+const DEFAULT_STOP_HEADINGS = ['reference', 'bibliography'];
+
+// Helper for fetching with timeout
+const fetchWithTimeout = async (input: string, init?: RequestInit, timeoutMs = 8000) => {
+    const controller = new AbortController();
+    const id = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+        const response = await fetch(input, { ...init, signal: controller.signal });
+        clearTimeout(id);
+        return response;
+    } catch (e) {
+        clearTimeout(id);
+        throw e;
+    }
+};
+
 export class ScraperService {
+
+  private proxyEnabled = true;
+  private proxyTemplate = DEFAULT_CORS_PROXY;
+  private proxyAuthHeader = "";
+  private onLog?: (log: NetworkLog) => void;
+  private profiles: ScraperProfile[] = DEFAULT_SCRAPER_PROFILES;
+  private cacheTtlMs = DEFAULT_SCRAPE_CACHE_TTL_DAYS * 86400000;
+
+  configure(config: {
+    proxyEnabled?: boolean;
+    proxyTemplate?: string;
+    proxyAuthHeader?: string;
+    profiles?: ScraperProfile[];
+    cacheTtlDays?: number;
+    onLog?: (log: NetworkLog) => void;
+  }) {
+    this.proxyEnabled = config.proxyEnabled ?? true;
+    this.proxyTemplate = (config.proxyTemplate ?? DEFAULT_CORS_PROXY).trim();
+    this.proxyAuthHeader = (config.proxyAuthHeader || "").trim();
+    this.profiles = config.profiles ?? DEFAULT_SCRAPER_PROFILES;
+    this.cacheTtlMs = (config.cacheTtlDays ?? DEFAULT_SCRAPE_CACHE_TTL_DAYS) * 86400000;
+    this.onLog = config.onLog;
+  }
   
   private garbageTriggers = [
     "copyright", "all rights reserved", "log in", "sign up", "et al.", "doi:", 
@@ -11,25 +72,52 @@ export class ScraperService {
   /**
    * Attempts to fetch and extract relevant academic text from a URL.
    * Includes CORS proxy fallback for browser environments.
+   * When the page yields little text and advertises citation_pdf_url,
+   * the PDF is downloaded and its text (minus references) is used instead.
+   * The result carries a section map built from the page's headings and the
+   * strategy that produced it. Substantial extracts are cached by URL and DOI.
    */
-  async extractWebpageText(url: string): Promise<string> {
-    if (!url) return "";
+  async extractWebpageText(url: string, doi?: string): Promise<FullTextExtract> {
+    if (!url) return { ...EMPTY_EXTRACT, failure: 'NO_URL', failureDetail: "Paper has no landing page URL" };
+    return this.withCache(url, doi, 'page', () => this.scrapePage(url));
+  }
 
-    let html = "";
+  /**
+   * Downloads a PDF and extracts its body text, through the same cache.
+   */
+  async extractPdf(pdfUrl: string, doi?: string): Promise<FullTextExtract> {
+    if (!pdfUrl) return { ...EMPTY_EXTRACT, failure: 'NO_URL', failureDetail: "No PDF URL" };
+    return this.withCache(pdfUrl, doi, 'pdf', () => this.downloadPdf(pdfUrl));
+  }
 
-    // Helper for fetching with timeout
-    const fetchWithTimeout = async (input: string, init?: RequestInit) => {
-        const controller = new AbortController();
-        const id = setTimeout(() => controller.abort(), 8000); // 8s timeout
-        try {
-            const response = await fetch(input, { ...init, signal: controller.signal });
-            clearTimeout(id);
-            return response;
-        } catch (e) {
-            clearTimeout(id);
-            throw e;
-        }
-    };
+  private async withCache(url: string, doi: string | undefined, kind: ScrapeCacheKind, extract: () => Promise<FullTextExtract>): Promise<FullTextExtract> {
+    const keys = scrapeCacheKeys(url, doi, kind);
+    if (this.cacheTtlMs > 0) {
+      const cached = await getCachedExtract(keys, this.cacheTtlMs);
+      // Stubs stored before the size check are skipped and overwritten by a fresh scrape
+      if (cached && cached.text.length >= MIN_HTML_CHARS) {
+        console.log(`[SCRAPER] Cache hit for ${url} (${cached.strategy}, ${cached.text.length} chars)`);
+        return cached;
+      }
+    }
+    const result = await extract();
+    // Failures and abstract-sized stubs are not cached, so a flaky proxy or paywall page is retried next time
+    if (this.cacheTtlMs > 0 && result.text.length >= MIN_HTML_CHARS) await putCachedExtract(keys, url, result);
+    return result;
+  }
+
+  private findProfile(url: string): ScraperProfile | undefined {
+    let host = "";
+    try { host = new URL(url).hostname.toLowerCase(); } catch (e) { return undefined; }
+    return this.profiles.find(p => p.domains.some(d => host === d.toLowerCase() || host.endsWith(`.${d.toLowerCase()}`)));
+  }
+
+  private async scrapePage(url: string): Promise<FullTextExtract> {
+    let html = "";
+    let httpStatus: number | undefined;
+    let proxyUsed = false;
+    const fail = (failure: ScrapeFailure, failureDetail: string): FullTextExtract =>
+      ({ ...EMPTY_EXTRACT, url, proxyUsed, httpStatus, failure, failureDetail });
 
     try {
       console.log(`[SCRAPER] Attempting to fetch: ${url}`);
@@ -40,6 +128,7 @@ export class ScraperService {
             method: 'GET',
             headers: { 'Accept': 'text/html' }
         });
+        httpStatus = response.status;
         if (response.ok) html = await response.text();
       } catch (e) {
           // Ignore direct failure (likely CORS)
@@ -47,128 +136,322 @@ export class ScraperService {
 
       // Strategy 2: CORS Proxy Fallback
       if (!html) {
-          try {
-             // Using allorigins.win raw API to bypass CORS
-             const proxyUrl = `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`;
-             // console.log(`[SCRAPER] Direct fetch failed. Using proxy: ${proxyUrl}`);
-             
-             const response = await fetchWithTimeout(proxyUrl);
-             if (response.ok) html = await response.text();
-          } catch (e) {
-             console.warn(`[SCRAPER] Proxy fetch also failed for ${url}`);
-             return "";
+          const proxied = await this.proxyFetch(url, 'text/html', 8000);
+          proxyUsed = proxied.attempted;
+          if (proxied.status) httpStatus = proxied.status;
+          if (proxied.response) {
+            html = await proxied.response.text();
+          } else if (!proxied.attempted) {
+            return httpStatus
+              ? fail('HTTP_ERROR', `Publisher answered HTTP ${httpStatus}; CORS proxy is disabled`)
+              : fail('BLOCKED', "Direct fetch blocked (CORS) and the CORS proxy is disabled");
+          } else {
+            return fail(proxied.status ? 'HTTP_ERROR' : 'PROXY_FAILED', proxied.error || "Proxy fetch failed");
           }
       }
 
-      if (!html) return "";
+      if (!html) return fail('NO_BODY', "Page was empty");
 
       const parser = new DOMParser();
       const doc = parser.parseFromString(html, 'text/html');
 
-      // 1. Check for Meta PDF
-      const pdfMeta = doc.querySelector('meta[name="citation_pdf_url"]');
-      if (pdfMeta) {
-        const content = pdfMeta.getAttribute('content');
-        if (content) {
-          console.log(`[SCRAPER] Found PDF Meta: ${content}`);
+      // 1. Check for Meta PDF (read before the cleanup below removes meta tags)
+      const pdfContent = doc.querySelector('meta[name="citation_pdf_url"]')?.getAttribute('content');
+      const pdfUrl = pdfContent ? new URL(pdfContent, url).toString() : null;
+
+      // 2. Publisher profile first, density heuristic as the fallback
+      let htmlExtract = EMPTY_EXTRACT;
+      const profile = this.findProfile(url);
+      if (profile) {
+        const text = this.extractWithProfile(doc, profile);
+        if (text.length >= MIN_PROFILE_CHARS) {
+          htmlExtract = { ...splitFullTextSections(text), strategy: `profile:${profile.id}` };
+        } else {
+          console.log(`[SCRAPER] Profile '${profile.id}' matched no body on ${url}. Falling back to density.`);
         }
       }
+      if (!htmlExtract.text) htmlExtract = { ...splitFullTextSections(this.extractFromDocument(doc)), strategy: 'density' };
+      console.log(`[SCRAPER] ${htmlExtract.strategy}: ${htmlExtract.text.length} chars from ${url}`);
+      htmlExtract = htmlExtract.text
+        ? { ...htmlExtract, url, proxyUsed, httpStatus }
+        : fail('NO_BODY', "No article body found on the page (abstract-only or login page?)");
+      if (htmlExtract.text.length >= MIN_HTML_CHARS || !pdfUrl) return htmlExtract;
 
-      // 2. Clean DOM (Remove scripts, styles, navs)
-      const tagsToRemove = ['script', 'style', 'nav', 'footer', 'header', 'meta', 'noscript', 'aside', 'form', 'button', 'input', 'iframe', 'svg'];
-      tagsToRemove.forEach(tag => {
-        doc.querySelectorAll(tag).forEach(el => el.remove());
-      });
+      console.log(`[SCRAPER] Only ${htmlExtract.text.length} chars in HTML. Trying PDF: ${pdfUrl}`);
+      const pdfExtract = await this.downloadPdf(pdfUrl);
+      if (pdfExtract.text.length > htmlExtract.text.length) return pdfExtract;
+      // Neither worked: the PDF's reason is the more specific one
+      return htmlExtract.text ? htmlExtract : pdfExtract;
 
-      // 3. Cluster Density Analysis
-      const parentScores = new Map<HTMLElement, number>();
-      const paragraphs = doc.querySelectorAll('p');
+    } catch (e: any) {
+      console.warn(`[SCRAPER] Error extracting text:`, e);
+      return fail('ERROR', e?.message || String(e));
+    }
+  }
 
-      paragraphs.forEach(p => {
-        const text = p.textContent || "";
-        const cleanText = text.replace(/\s+/g, ' ').trim();
-        const wordCount = cleanText.split(' ').length;
+  /**
+   * Fetches `targetUrl` through the configured CORS proxy. The response is null when the
+   * proxy is disabled or fails; failures are logged to the Network sidebar and described in `error`.
+   */
+  private async proxyFetch(targetUrl: string, accept: string, timeoutMs: number): Promise<ProxyResult> {
+    if (!this.proxyEnabled || !this.proxyTemplate) return { response: null, attempted: false };
 
-        // Filter Level 1: Basic Hygiene
-        if (wordCount < 20) return;
-        
-        const lowerText = cleanText.toLowerCase();
-        if (this.garbageTriggers.some(trigger => lowerText.includes(trigger))) return;
+    const encoded = encodeURIComponent(targetUrl);
+    const proxyUrl = this.proxyTemplate.includes('{url}')
+      ? this.proxyTemplate.replace('{url}', encoded)
+      : this.proxyTemplate + encoded;
+    const headers: Record<string, string> = { 'Accept': accept };
+    const sep = this.proxyAuthHeader.indexOf(':');
+    if (sep > 0) headers[this.proxyAuthHeader.slice(0, sep).trim()] = this.proxyAuthHeader.slice(sep + 1).trim();
 
-        // Filter Level 2: Sentence Structure
-        const sentences = cleanText.split(/[.!?]\s+(?=[A-Z])/);
-        if (sentences.length < 2) return;
+    const requestId = `proxy-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+    const startTime = Date.now();
+    let proxyHost = proxyUrl;
+    try { proxyHost = new URL(proxyUrl).host; } catch (e) {}
 
-        // Scoring
-        const parent = p.parentElement as HTMLElement;
-        if (!parent) return;
+    this.onLog?.({
+      id: requestId,
+      timestamp: startTime,
+      source: 'Proxy',
+      type: 'req',
+      method: 'GET',
+      url: targetUrl,
+      details: `via ${proxyHost}`
+    });
 
-        // Handle some common wrapper tags by moving up
-        let effectiveParent = parent;
-        if (['SPAN', 'STRONG', 'EM', 'A', 'B', 'I'].includes(parent.tagName)) {
-            if (parent.parentElement) effectiveParent = parent.parentElement;
-        }
+    try {
+      const response = await fetchWithTimeout(proxyUrl, { headers }, timeoutMs);
+      this.onLog?.({
+        id: requestId + (response.ok ? '-res' : '-err'),
+        timestamp: Date.now(),
+        source: 'Proxy',
+        type: response.ok ? 'res' : 'err',
+        method: 'GET',
+        url: targetUrl,
+        status: response.status,
+        duration: Date.now() - startTime,
+        details: response.ok ? `via ${proxyHost}` : `Proxy ${proxyHost} answered HTTP ${response.status} ${response.statusText}`
+      });
+      return response.ok
+        ? { response, attempted: true, status: response.status }
+        : { response: null, attempted: true, status: response.status, error: `HTTP ${response.status} via proxy ${proxyHost}` };
+    } catch (e: any) {
+      const timedOut = e.name === 'AbortError';
+      this.onLog?.({
+        id: requestId + '-err',
+        timestamp: Date.now(),
+        source: 'Proxy',
+        type: 'err',
+        method: 'GET',
+        url: targetUrl,
+        duration: Date.now() - startTime,
+        details: timedOut
+          ? `Proxy ${proxyHost} timed out after ${timeoutMs / 1000}s`
+          : `Proxy ${proxyHost} unreachable (${e.message}). Is it running, and does it send CORS headers?`
+      });
+      console.warn(`[SCRAPER] Proxy fetch also failed for ${targetUrl}`);
+      return { response: null, attempted: true, error: timedOut ? `Proxy ${proxyHost} timed out` : `Proxy ${proxyHost} unreachable` };
+    }
+  }
 
-        let score = cleanText.length;
-        if (wordCount > 60) score *= 1.5; // Density Multiplier
+  /**
+   * Downloads a PDF (direct, then via the CORS proxy) and extracts its body text.
+   */
+  private async downloadPdf(pdfUrl: string): Promise<FullTextExtract> {
+    let httpStatus: number | undefined;
+    let proxyUsed = false;
+    let notPdf = false;
+    const fail = (failure: ScrapeFailure, failureDetail: string): FullTextExtract =>
+      ({ ...EMPTY_EXTRACT, url: pdfUrl, proxyUsed, httpStatus, failure, failureDetail, strategy: 'pdf' });
+    const readPdf = async (response: Response): Promise<ArrayBuffer | null> => {
+      const data = await response.arrayBuffer();
+      if (isPdfData(data)) return data;
+      notPdf = true;
+      return null;
+    };
 
-        const currentScore = parentScores.get(effectiveParent) || 0;
-        parentScores.set(effectiveParent, currentScore + score);
-      });
+    const data = await (async () => {
+      try {
+        const response = await fetchWithTimeout(pdfUrl, { headers: { 'Accept': 'application/pdf' } }, 20000);
+        httpStatus = response.status;
+        if (response.ok) return await readPdf(response);
+      } catch (e) {
+        // Ignore direct failure (likely CORS)
+      }
+      return null;
+    })() ?? await (async () => {
+      const proxied = await this.proxyFetch(pdfUrl, 'application/pdf', 20000);
+      proxyUsed = proxied.attempted;
+      if (proxied.status) httpStatus = proxied.status;
+      return proxied.response ? readPdf(proxied.response) : null;
+    })();
+    if (!data) {
+      console.warn(`[SCRAPER] Could not download PDF ${pdfUrl}`);
+      return fail('PDF_UNAVAILABLE', notPdf
+        ? "PDF link returned a web page instead of a PDF (paywall or login?)"
+        : httpStatus ? `PDF download answered HTTP ${httpStatus}` : "PDF download blocked (CORS) or proxy unavailable");
+    }
+
+    try {
+      const extract: FullTextExtract = { ...splitFullTextSections(markPdfHeadings(await extractPdfText(data))), strategy: 'pdf', url: pdfUrl, proxyUsed, httpStatus };
+      console.log(`[SCRAPER] Extracted ${extract.text.length} chars from PDF (${extract.sections.length} sections).`);
+      return extract.text ? extract : fail('PDF_PARSE_FAILED', "PDF has no text layer (scanned?)");
+    } catch (e: any) {
+      console.warn(`[SCRAPER] PDF parsing failed for ${pdfUrl}`, e);
+      return fail('PDF_PARSE_FAILED', `PDF parsing failed: ${e?.message || e}`);
+    }
+  }
 
-      if (parentScores.size === 0) {
-        return "";
+  /**
+   * Reads the profile's body containers, minus excluded elements.
+   */
+  private extractWithProfile(doc: Document, profile: ScraperProfile): string {
+    try {
+      [...NOISE_TAGS, ...(profile.excludeSelectors || [])].forEach(sel => {
+        doc.querySelectorAll(sel).forEach(el => el.remove());
+      });
+      for (const selector of profile.bodySelectors) {
+        const containers = Array.from(doc.querySelectorAll(selector));
+        if (containers.length === 0) continue;
+        const blocks = containers.flatMap(c => this.collectBlocks(c, profile.stopHeadings?.length ? profile.stopHeadings : DEFAULT_STOP_HEADINGS, 8));
+        return [...new Set(blocks)].join("\n\n").substring(0, MAX_FULL_TEXT_CHARS);
       }
+    } catch (e) {
+      // An invalid selector in user-edited JSON must not break scraping
+      console.warn(`[SCRAPER] Profile '${profile.id}' failed`, e);
+    }
+    return "";
+  }
 
-      // 4. Pick Winner
-      let bestParent: HTMLElement | null = null;
-      let maxScore = -1;
+  /**
+   * Paragraphs (over `minWords` words) and "## Heading" lines in document order,
+   * up to the first stop heading.
+   */
+  private collectBlocks(container: Element, stopHeadings: string[], minWords: number): string[] {
+    const blocks: string[] = [];
+    const descendants = container.querySelectorAll('*');
+    for (let i = 0; i < descendants.length; i++) {
+        const el = descendants[i] as HTMLElement;
+        
+        // Stop triggers
+        if (['H1','H2','H3','H4','H5'].includes(el.tagName)) {
+            const headerText = (el.textContent || "").toLowerCase();
+            if (stopHeadings.some(h => headerText.includes(h.toLowerCase()))) {
+                break; 
+            }
+            const heading = (el.textContent || "").replace(/\s+/g, ' ').trim();
+            if (el.tagName !== 'H1' && heading && heading.length < 120) blocks.push(`## ${heading}`);
+        }
 
-      for (const [node, score] of parentScores.entries()) {
-        if (score > maxScore) {
-          maxScore = score;
-          bestParent = node;
+        if (el.tagName === 'P') {
+            const t = (el.textContent || "").replace(/\s+/g, ' ').trim();
+            if (t.split(' ').length > minWords) {
+                blocks.push(t);
+            }
         }
-      }
+    }
+    return blocks;
+  }
 
-      if (!bestParent) return "";
+  /**
+   * Cluster density extraction over an already parsed page.
+   */
+  private extractFromDocument(doc: Document): string {
+    // 2. Clean DOM (Remove scripts, styles, navs)
+    NOISE_TAGS.forEach(tag => {
+      doc.querySelectorAll(tag).forEach(el => el.remove());
+    });
+
+    // 3. Cluster Density Analysis
+    const parentScores = new Map<HTMLElement, number>();
+    const paragraphs = doc.querySelectorAll('p');
+
+    paragraphs.forEach(p => {
+      const text = p.textContent || "";
+      const cleanText = text.replace(/\s+/g, ' ').trim();
+      const wordCount = cleanText.split(' ').length;
 
-      // 5. Extract Text from Winner
-      const finalBlocks: string[] = [];
+      // Filter Level 1: Basic Hygiene
+      if (wordCount < 20) return;
       
-      const descendants = bestParent.querySelectorAll('*');
-      for (let i = 0; i < descendants.length; i++) {
-          const el = descendants[i] as HTMLElement;
-          
-          // Stop triggers
-          if (['H1','H2','H3','H4','H5'].includes(el.tagName)) {
-              const headerText = (el.textContent || "").toLowerCase();
-              if (headerText.includes('reference') || headerText.includes('bibliography')) {
-                  break; 
-              }
-          }
+      const lowerText = cleanText.toLowerCase();
+      if (this.garbageTriggers.some(trigger => lowerText.includes(trigger))) return;
 
-          if (el.tagName === 'P') {
-              const t = (el.textContent || "").replace(/\s+/g, ' ').trim();
-              if (t.split(' ').length > 15) {
-                  finalBlocks.push(t);
-              }
-          }
-      }
+      // Filter Level 2: Sentence Structure
+      const sentences = cleanText.split(/[.!?]\s+(?=[A-Z])/);
+      if (sentences.length < 2) return;
 
-      if (finalBlocks.length === 0) {
-          return (bestParent.textContent || "").substring(0, 10000);
+      // Scoring
+      const parent = p.parentElement as HTMLElement;
+      if (!parent) return;
+
+      // Handle some common wrapper tags by moving up
+      let effectiveParent = parent;
+      if (['SPAN', 'STRONG', 'EM', 'A', 'B', 'I'].includes(parent.tagName)) {
+          if (parent.parentElement) effectiveParent = parent.parentElement;
       }
 
-      const uniqueBlocks = [...new Set(finalBlocks)];
-      const resultText = uniqueBlocks.join("\n\n").substring(0, 40000);
-      
-      console.log(`[SCRAPER] Success! Extracted ${resultText.length} chars.`);
-      return resultText;
+      let score = cleanText.length;
+      if (wordCount > 60) score *= 1.5; // Density Multiplier
 
-    } catch (e) {
-      console.warn(`[SCRAPER] Error extracting text:`, e);
+      const currentScore = parentScores.get(effectiveParent) || 0;
+      parentScores.set(effectiveParent, currentScore + score);
+    });
+
+    if (parentScores.size === 0) {
       return "";
     }
+
+    // 4. Pick Winner
+    let bestParent: HTMLElement | null = null;
+    let maxScore = -1;
+
+    for (const [node, score] of parentScores.entries()) {
+      if (score > maxScore) {
+        maxScore = score;
+        bestParent = node;
+      }
+    }
+
+    if (!bestParent) return "";
+
+    // 4b. Sectioned articles keep one container per section, so the winner may be
+    // a single section. Widen to the nearest ancestor holding most of the body text.
+    const totalScore = Array.from(parentScores.values()).reduce((a, b) => a + b, 0);
+    const scoreWithin = (el: HTMLElement) => Array.from(parentScores.entries())
+        .reduce((acc, [node, score]) => acc + (el.contains(node) ? score : 0), 0);
+    while (bestParent.parentElement && bestParent.tagName !== 'BODY' && scoreWithin(bestParent) < totalScore * 0.7) {
+        bestParent = bestParent.parentElement;
+    }
+
+    // 5. Extract Text from Winner (headings kept as "## Heading" for the section map)
+    const finalBlocks = this.collectBlocks(bestParent, DEFAULT_STOP_HEADINGS, 15);
+
+    if (finalBlocks.length === 0) {
+        return (bestParent.textContent || "").substring(0, 10000);
+    }
+
+    const uniqueBlocks = [...new Set(finalBlocks)];
+    const resultText = uniqueBlocks.join("\n\n").substring(0, MAX_FULL_TEXT_CHARS);
+    
+    console.log(`[SCRAPER] Success! Extracted ${resultText.length} chars.`);
+    return resultText;
   }
-}
\ No newline at end of file
+}
+/**
+ * Parses profiles edited as JSON in Settings. Throws with a readable message on bad shape.
+ */
+export function parseScraperProfiles(json: string): ScraperProfile[] {
+  const data = JSON.parse(json);
+  if (!Array.isArray(data)) throw new Error("Expected an array of profiles");
+  const isStrings = (v: any) => Array.isArray(v) && v.every(x => typeof x === 'string');
+  data.forEach((p: any, i: number) => {
+    const where = `Profile ${i + 1}${p?.id ? ` ('${p.id}')` : ''}`;
+    if (!p || typeof p.id !== 'string' || !p.id) throw new Error(`${where}: "id" must be a non-empty string`);
+    if (!isStrings(p.domains) || p.domains.length === 0) throw new Error(`${where}: "domains" must be a non-empty string array`);
+    if (!isStrings(p.bodySelectors) || p.bodySelectors.length === 0) throw new Error(`${where}: "bodySelectors" must be a non-empty string array`);
+    if (p.excludeSelectors !== undefined && !isStrings(p.excludeSelectors)) throw new Error(`${where}: "excludeSelectors" must be a string array`);
+    if (p.stopHeadings !== undefined && !isStrings(p.stopHeadings)) throw new Error(`${where}: "stopHeadings" must be a string array`);
+  });
+  return data;
+}
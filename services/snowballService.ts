@@ -0,0 +1,86 @@
+import { Paper } from "../types";
+import { fetchSemanticScholarNeighbours, getPubMedLinks, fetchPubMedPapers, SourceRateLimitError } from "./paperService";
+import { mergePapers, getPaperKeys } from "./mergeService";
+
+// Semantic Scholar identifier for a paper from any source
+function semanticScholarRef(paper: Paper): string | null {
+  if (paper.source === 'SemanticScholar') return paper.id;
+  if (paper.doi) return `DOI:${paper.doi}`;
+  if (paper.pmid) return `PMID:${paper.pmid}`;
+  return null;
+}
+
+/**
+ * Neighbours found by one expansion, plus the link sources that stopped early
+ * (their remaining links were not followed).
+ */
+export interface CitationNeighbours {
+  papers: Paper[];
+  rateLimitedSources: string[]; // Source labels that kept answering 429
+  failedSources: Record<string, string>; // Source label -> error that stopped it
+}
+
+/**
+ * Expands seed papers one hop through the citation graph (references + citing papers).
+ * Semantic Scholar covers every seed with a DOI/PMID; PubMed elink adds
+ * MEDLINE links S2 may lack. Papers whose keys are in seenKeys are dropped, and linked
+ * PMIDs already seen (or already found via S2) are not fetched. Either source stopping
+ * leaves the other running. Results are merged, seeds are not removed.
+ */
+export async function collectCitationNeighbours(
+  seeds: Paper[],
+  maxPerSeed: number,
+  seenKeys: Set<string>,
+  signal?: AbortSignal
+): Promise<CitationNeighbours> {
+  const found: Paper[] = [];
+  const result: CitationNeighbours = { papers: [], rateLimitedSources: [], failedSources: {} };
+  const stop = (label: string, e: any) => {
+    if (e.name === 'AbortError') throw e;
+    if (e instanceof SourceRateLimitError) {
+      console.warn(`Snowball: ${label} rate limited, continuing with the other source`);
+      result.rateLimitedSources.push(label);
+    } else {
+      console.error(`Snowball: ${label} failed, continuing with the other source`, e);
+      result.failedSources[label] = e.message;
+    }
+  };
+  const isUnseen = (paper: Paper) => !getPaperKeys(paper).some(k => seenKeys.has(k));
+
+  // Sequential on purpose: S2's unauthenticated pool is small and shared
+  for (const seed of seeds) {
+    if (signal?.aborted) break;
+    const ref = semanticScholarRef(seed);
+    if (!ref) continue;
+    try {
+      found.push(...(await fetchSemanticScholarNeighbours(ref, 'references', maxPerSeed, signal)).filter(isUnseen));
+      found.push(...(await fetchSemanticScholarNeighbours(ref, 'citations', maxPerSeed, signal)).filter(isUnseen));
+    } catch (e: any) {
+      stop('Semantic Scholar', e);
+      break;
+    }
+  }
+
+  const pmids = seeds.map(p => p.pmid).filter((id): id is string => !!id);
+  if (pmids.length > 0 && !signal?.aborted) {
+    try {
+      const cap = maxPerSeed * pmids.length;
+      const refs = await getPubMedLinks(pmids, 'pubmed_pubmed_refs', signal);
+      const citedIn = await getPubMedLinks(pmids, 'pubmed_pubmed_citedin', signal);
+      const known = new Set(found.map(p => p.pmid).filter(Boolean));
+      const linked = Array.from(new Set([...refs, ...citedIn]))
+        .filter(id => !known.has(id) && !seenKeys.has(`pmid:${id}`))
+        .slice(0, cap);
+
+      for (let i = 0; i < linked.length; i += 200) {
+        if (signal?.aborted) break;
+        found.push(...(await fetchPubMedPapers(linked.slice(i, i + 200), signal)).filter(isUnseen));
+      }
+    } catch (e: any) {
+      stop('PubMed', e);
+    }
+  }
+
+  result.papers = mergePapers(found);
+  return result;
+}
@@ -0,0 +1,31 @@
+
+import { PaperSource } from "../types";
+import { pubMedSource, semanticScholarSource, openAlexSource, europePmcSource, bioRxivSource, medRxivSource, arxivSource } from "./paperService";
+
+/**
+ * Registry of literature databases the cycle loop can search.
+ * Registration order is the display order in the navbar toggle.
+ */
+const sources = new Map<string, PaperSource>();
+
+export function registerSource(source: PaperSource): void {
+    sources.set(source.id, source);
+}
+
+export function getSource(id: string): PaperSource | undefined {
+    return sources.get(id);
+}
+
+export function listSources(): PaperSource[] {
+    return Array.from(sources.values());
+}
+
+registerSource(pubMedSource);
+registerSource(semanticScholarSource);
+registerSource(openAlexSource);
+registerSource(europePmcSource);
+registerSource(bioRxivSource);
+registerSource(medRxivSource);
+registerSource(arxivSource);
+
+export const DEFAULT_SOURCE_ID = pubMedSource.id;
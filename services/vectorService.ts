@@ -1,3 +1,5 @@
+import { EmbeddingVector } from "../types";
+
 // Calculate Cosine Similarity
 export function cosineSimilarity(vecA: number[], vecB: number[]): number {
   if (vecA.length !== vecB.length) return 0;
@@ -10,4 +12,25 @@ export function cosineSimilarity(vecA: number[], vecB: number[]): number {
     normB += vecB[i] * vecB[i];
   }
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-}
\ No newline at end of file
+}
+
+export class EmbeddingMismatchError extends Error {
+  constructor(public a: EmbeddingVector, public b: EmbeddingVector) {
+    super(`Cannot compare a ${a.dim}-d ${a.model} vector with a ${b.dim}-d ${b.model} vector. ` +
+      `The embedding model changed during the run; start it again so every vector comes from one model.`);
+    this.name = 'EmbeddingMismatchError';
+  }
+}
+
+export function toEmbeddingVector(values: number[] | null, model: string): EmbeddingVector | null {
+  return values && values.length > 0 ? { values, model, dim: values.length } : null;
+}
+
+/**
+ * Cosine similarity of two vectors from the same embedding model. Vectors from
+ * different models (or dimensions) live in different spaces, so this throws instead of scoring 0.
+ */
+export function compareEmbeddings(a: EmbeddingVector, b: EmbeddingVector): number {
+  if (a.model !== b.model || a.dim !== b.dim) throw new EmbeddingMismatchError(a, b);
+  return cosineSimilarity(a.values, b.values);
+}
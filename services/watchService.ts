@@ -0,0 +1,111 @@
+
+import { QueueItem } from "../types";
+
+// One localStorage entry per watched query, so a save rewrites only that query's keys
+const STORAGE_PREFIX = 'ecoscholar_watch_mark:';
+// Single blob used before per-query entries; split up on first access
+const LEGACY_STORAGE_KEY = 'ecoscholar_watch_marks';
+// Paper identity keys remembered per query (newest kept): two full runs at the row's stop
+// limit, at up to four keys (DOI, PMID, PMCID, title) per paper. Older keys fall off, so a
+// paper last seen more than two full runs ago can be graded again.
+const SEEN_RUNS_KEPT = 2;
+const KEYS_PER_PAPER = 4;
+const DEFAULT_STOP_REC = 1000;
+
+function maxSeenKeys(stopRec?: number): number {
+  return SEEN_RUNS_KEPT * KEYS_PER_PAPER * (stopRec && stopRec > 0 ? stopRec : DEFAULT_STOP_REC);
+}
+
+/**
+ * High-water mark for one query: when it last completed and which papers it has already processed.
+ */
+export interface WatchMark {
+  lastRun: number; // Start time (ms) of the last uninterrupted run, 0 if none
+  seenKeys: string[]; // getPaperKeys() of processed papers
+}
+
+// Parsed marks by watchKey (null = nothing stored); the queue renders a mark per row on every render
+const markCache = new Map<string, WatchMark | null>();
+let legacyMigrated = false;
+
+function migrateLegacyMarks() {
+  legacyMigrated = true;
+  try {
+    const legacy: Record<string, WatchMark> = JSON.parse(localStorage.getItem(LEGACY_STORAGE_KEY) || '{}');
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    Object.entries(legacy).forEach(([key, mark]) => {
+      localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify({ ...mark, seenKeys: mark.seenKeys.slice(-maxSeenKeys()) }));
+    });
+  } catch (e) {
+    console.error("Failed to migrate watch marks", e);
+  }
+}
+
+function loadMark(key: string): WatchMark | null {
+  if (!legacyMigrated) migrateLegacyMarks();
+  if (!markCache.has(key)) {
+    let mark: WatchMark | null = null;
+    try {
+      mark = JSON.parse(localStorage.getItem(STORAGE_PREFIX + key) || 'null');
+    } catch (e) {
+      console.error("Failed to load watch mark");
+    }
+    markCache.set(key, mark);
+  }
+  return markCache.get(key) || null;
+}
+
+// Same query text with different filters/seeds is a different watch
+export function watchKey(item: QueueItem): string {
+  return JSON.stringify([item.query.trim().toLowerCase(), item.filters || null, item.seedPmids?.length ? item.seedPmids : null]);
+}
+
+export function getWatchMark(item: QueueItem): WatchMark | undefined {
+  return loadMark(watchKey(item)) || undefined;
+}
+
+/**
+ * How a watched run ended, as far as the watch date is concerned.
+ */
+export interface WatchRunOutcome {
+  failFast: boolean;
+  stoppedSources: number; // Throttled or failed sources, i.e. batches that were never fetched
+  truncated: boolean; // The stop limit was reached before every source ran out
+}
+
+/**
+ * Start time to store for a finished run, or undefined to keep the previous date:
+ * the date only moves forward once every source ran to the end without an error.
+ */
+export function watchRunStart(runStartedAt: number, outcome: WatchRunOutcome): number | undefined {
+  return outcome.failFast || outcome.stoppedSources > 0 || outcome.truncated ? undefined : runStartedAt;
+}
+
+/**
+ * Omitting runStartedAt records the papers but keeps the previous date,
+ * so an interrupted run does not skip records it never reached.
+ * Returns an error message when the browser refused the write (usually the storage quota);
+ * the mark is then only kept for this session.
+ */
+export function saveWatchMark(item: QueueItem, seenKeys: Iterable<string>, runStartedAt?: number): string | null {
+  const key = watchKey(item);
+  const previous = loadMark(key);
+  const merged = Array.from(new Set([...(previous?.seenKeys || []), ...seenKeys]));
+  const mark: WatchMark = { lastRun: runStartedAt ?? previous?.lastRun ?? 0, seenKeys: merged.slice(-maxSeenKeys(item.stopRec)) };
+  markCache.set(key, mark);
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(mark));
+    return null;
+  } catch (e: any) {
+    console.error("Failed to save watch mark", e);
+    return e?.name === 'QuotaExceededError'
+      ? "Browser storage is full, so this watch mark was not saved"
+      : `Watch mark was not saved: ${e?.message || e}`;
+  }
+}
+
+// "YYYY-MM-DD" in local time, the granularity every source's date filter accepts
+export function toDateString(ms: number): string {
+  const d = new Date(ms);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
@@ -193,13 +193,14 @@ export class ZoteroService {
     if (!this.useLocal && !this.libraryId) return 'UNCERTAIN';
 
     try {
+      // Any item type counts: the library may hold the preprint of a published paper or vice versa
       const cleanTitle = paper.title.trim();
       const titleWords = cleanTitle.split(/\s+/).length;
       const isLongEnough = titleWords >= 2 || cleanTitle.length > 20;
 
       if (isLongEnough) {
           const encodedTitle = encodeURIComponent(cleanTitle);
-          const url = `${this.baseUrl}/items?q=${encodedTitle}&itemType=journalArticle&limit=5`;
+          const url = `${this.baseUrl}/items?q=${encodedTitle}&limit=5`;
           this.logInfo('check-dup', `Checking long title: "${cleanTitle}"`);
 
           const response = await this.monitoredFetch(url, { method: 'GET', headers: this.getHeaders() });
@@ -218,7 +219,7 @@ export class ZoteroService {
           if (paper.authors.length === 0) return 'UNCERTAIN';
           const firstAuthor = paper.authors[0].split(',')[0].trim();
           const encodedAuthor = encodeURIComponent(firstAuthor);
-          const url = `${this.baseUrl}/items?q=${encodedAuthor}&itemType=journalArticle&limit=10`;
+          const url = `${this.baseUrl}/items?q=${encodedAuthor}&limit=10`;
 
           this.logInfo('check-dup', `Short title fallback. Checking Author: "${firstAuthor}"`);
           const response = await this.monitoredFetch(url, { method: 'GET', headers: this.getHeaders() });
@@ -275,7 +276,9 @@ export class ZoteroService {
     if (result.aiAnalysis?.summary) {
         abstractNote += `[AI SUMMARY]\n${result.aiAnalysis.summary}\n\n`;
     }
-    abstractNote += `[ORIGINAL ABSTRACT]\n${paper.abstract}`;
+    abstractNote += paper.syntheticAbstract
+        ? `[SYNTHETIC ABSTRACT - ${paper.syntheticAbstract === 'full-text' ? 'generated from full text' : 'built from metadata'}]\n${paper.abstract}`
+        : `[ORIGINAL ABSTRACT]\n${paper.abstract}`;
 
     // Aggressive sanitization of tags to prevent Code Injection in Zotero Sync and 413 errors
     const rawTags = [
@@ -283,7 +286,8 @@ export class ZoteroService {
         result.querySource,
         ...(result.aiAnalysis?.tags || []),
         (result.matches?.[0]?.tag),
-        (result.aiAnalysis?.qualified ? "AI_Qualified" : "")
+        (result.aiAnalysis?.qualified ? "AI_Qualified" : ""),
+        (paper.syntheticAbstract ? "Synthetic_Abstract" : "")
     ];
 
     const tags = rawTags
@@ -291,26 +295,75 @@ export class ZoteroService {
         .map(t => ({ tag: this.sanitizeTag(t!) }))
         .filter(t => t.tag.length > 2); // Filter out empty or tiny tags after sanitization
 
+    // Indexing terms go in as automatic tags (type 1), like Zotero's own PubMed import
+    const subjectTags = [
+        ...(paper.meshHeadings || []).map(h => h.descriptor),
+        ...(paper.keywords || [])
+    ]
+        .map(t => ({ tag: this.sanitizeTag(t), type: 1 }))
+        .filter(t => t.tag.length > 2)
+        .slice(0, 40);
+
     const extraInfo = [
        `EcoScholarScore: ${result.aiAnalysis?.score || 0}`,
        `ProcessingStatus: ${result.status}`,
        `Phytochemicals: ${this.truncate(result.aiAnalysis?.phytochemicals || 'None', 200)}`,
-       `Plants: ${this.truncate(result.aiAnalysis?.plants || 'None', 200)}`
-    ].join('\n');
-
-    return {
+       `Plants: ${this.truncate(result.aiAnalysis?.plants || 'None', 200)}`,
+       `Sources: ${(paper.foundIn || [paper.source]).join(', ')}`,
+       paper.pmid ? `PMID: ${paper.pmid}` : '',
+       paper.pmcid ? `PMCID: ${paper.pmcid}` : '',
+       paper.publicationTypes?.length ? `Publication Type: ${paper.publicationTypes.join('; ')}` : '',
+       paper.syntheticAbstract ? `Synthetic Abstract: ${paper.syntheticAbstract}` : '',
+       result.openAccess ? `OA URL: ${result.openAccess.url}` : '',
+       result.openAccess?.license ? `OA License: ${result.openAccess.license}` : ''
+    ].filter(Boolean).join('\n');
+
+    const item: any = {
       itemType: "journalArticle",
       title: this.truncate(paper.title, 250),
       creators: creators,
       // Truncate abstract to avoid 413 Payload Too Large
       abstractNote: this.truncate(abstractNote, 10000), 
-      publicationTitle: "Extracted by EcoScholar AI", 
-      date: paper.year.toString(),
+      publicationTitle: this.truncate(paper.venue || "", 250),
+      journalAbbreviation: this.truncate(paper.journalAbbrev || "", 100),
+      volume: paper.volume || "",
+      issue: paper.issue || "",
+      pages: paper.pages || "",
+      date: paper.publishedDate || (paper.year ? paper.year.toString() : ""),
       url: this.truncate(paper.url, 1000),
       DOI: this.truncate(paper.doi || "", 100),
-      tags: tags,
+      tags: [...tags, ...subjectTags],
       extra: this.truncate(extraInfo, 2000)
     };
+
+    // Preprints use Zotero's 'preprint' type, which has no publicationTitle field
+    if (result.isPreprint ?? paper.isPreprint) {
+      item.itemType = "preprint";
+      delete item.publicationTitle;
+      delete item.journalAbbreviation;
+      delete item.volume;
+      delete item.issue;
+      delete item.pages;
+      item.repository = this.truncate(paper.preprintServer || paper.venue || "", 250);
+      if (paper.source === 'arXiv') item.archiveID = `arXiv:${paper.id}`;
+    }
+
+    return item;
+  }
+
+  // Linked-URL child attachment pointing at the free full text
+  private formatOpenAccessAttachment(parentKey: string, result: ProcessingResult): any {
+    const oa = result.openAccess!;
+    const host = oa.hostType === 'pmc' ? 'PMC' : oa.hostType === 'repository' ? 'Repository' : 'Publisher';
+    return {
+      itemType: "attachment",
+      parentItem: parentKey,
+      linkMode: "linked_url",
+      title: `Open Access Full Text (${host}${oa.license ? `, ${oa.license}` : ''})`,
+      url: this.truncate(oa.pdfUrl || oa.url, 1000),
+      contentType: oa.pdfUrl ? "application/pdf" : "text/html",
+      tags: []
+    };
   }
 
   async uploadItems(items: { paper: Paper; result: ProcessingResult }[]): Promise<ZoteroResult[]> {
@@ -351,6 +404,23 @@ export class ZoteroService {
 
             if (response.ok) {
                 results.push({ paperTitle: item.paper.title, status: 'UPLOADED' });
+
+                // Attachment failures never fail the upload itself
+                if (item.result.openAccess) {
+                    try {
+                        const created = await response.json();
+                        const parentKey = created?.success?.['0'] || created?.successful?.['0']?.key;
+                        if (parentKey) {
+                            await this.monitoredFetch(`${this.baseUrl}/items`, {
+                                method: 'POST',
+                                headers: this.getHeaders(),
+                                body: JSON.stringify([this.formatOpenAccessAttachment(parentKey, item.result)])
+                            });
+                        }
+                    } catch (e: any) {
+                        this.logInfo('attach-fail', `Could not attach open-access link`, { error: e.message });
+                    }
+                }
             } else {
                 const errText = await response.text();
                 this.logInfo('upload-fail', `Server rejected item`, { error: errText });
@@ -3,24 +3,121 @@ export interface Paper {
   id: string;
   title: string;
   abstract: string;
+  abstractSections?: AbstractSection[]; // Structured abstract (PubMed Label / NlmCategory), in order
   authors: string[];
-  year: number;
+  year: number; // 0 when the source gives no date
   url: string;
   doi?: string;
-  source: 'SemanticScholar' | 'PubMed';
+  venue?: string; // Journal / conference / repository name
+  journalAbbrev?: string; // ISO abbreviation (e.g. "J Ethnopharmacol")
+  volume?: string;
+  issue?: string;
+  pages?: string; // e.g. "112-9"
+  publishedDate?: string; // "YYYY-MM-DD", "YYYY-MM", "YYYY" or a free-text MedlineDate ("1998 Dec-1999 Jan")
+  indexedDate?: string; // "YYYY-MM-DD" the record entered the source (PubMed Entrez date)
+  meshHeadings?: MeshHeading[];
+  keywords?: string[];
+  publicationTypes?: string[]; // e.g. "Journal Article", "Review"
+  languages?: string[]; // MEDLINE language codes (eng, fre, ...) when the source reports them
+  affiliations?: string[];
+  pmid?: string;
+  pmcid?: string;
+  isOpenAccess?: boolean; // Full text available in the PMC open-access subset
+  isPreprint?: boolean; // Not (yet) peer reviewed
+  preprintServer?: string; // e.g. bioRxiv, medRxiv, arXiv
+  source: PaperOrigin;
+  foundIn?: PaperOrigin[]; // Every database that returned this paper (multi-source runs)
+  syntheticAbstract?: 'full-text' | 'metadata'; // The source had no abstract; this one was generated before embedding
 }
 
+// NLM's normalised headings for structured abstracts
+export type AbstractSectionCategory = 'BACKGROUND' | 'OBJECTIVE' | 'METHODS' | 'RESULTS' | 'CONCLUSIONS' | 'UNASSIGNED';
+
+export interface AbstractSection {
+  label: string; // Heading as printed (e.g. "MATERIALS AND METHODS")
+  category: AbstractSectionCategory;
+  text: string;
+}
+
+// Body sections of a full-text article; subheadings inherit their parent's category
+export type FullTextSectionCategory = 'INTRODUCTION' | 'METHODS' | 'RESULTS' | 'DISCUSSION' | 'CONCLUSIONS' | 'OTHER';
+
+export interface FullTextSection {
+  heading: string; // As printed; "" for text before the first heading
+  category: FullTextSectionCategory;
+  text: string;
+}
+
+// Scraped / downloaded full text with its section map
+export interface FullTextExtract {
+  text: string; // Headings marked as "## Heading" lines
+  sections: FullTextSection[];
+  strategy?: string; // What produced the text: "profile:<id>", "density", "pdf", "pmc-xml"
+  cachedAt?: number; // Set when served from the scrape cache
+  // Diagnostics of the fetch that produced (or failed to produce) the text
+  url?: string;
+  proxyUsed?: boolean;
+  httpStatus?: number;
+  failure?: ScrapeFailure;
+  failureDetail?: string;
+}
+
+export type ScrapeFailure = 'NO_URL' | 'HTTP_ERROR' | 'BLOCKED' | 'PROXY_FAILED' | 'NO_BODY' | 'PDF_UNAVAILABLE' | 'PDF_PARSE_FAILED' | 'ERROR';
+
+// How the full text behind a grade was obtained. chars = 0 means the grade used only the abstract.
+export interface ScrapeOutcome {
+  attempted: boolean;
+  strategy?: string; // FullTextExtract.strategy of the text that was used
+  url?: string;
+  proxyUsed?: boolean;
+  httpStatus?: number;
+  cached?: boolean;
+  chars: number; // Extracted
+  charsSent?: number; // Sent to the grader after section selection
+  failure?: ScrapeFailure; // Last failure when no text was obtained
+  failureDetail?: string;
+}
+
+// Publisher-specific extraction rules; the density heuristic handles every other site
+export interface ScraperProfile {
+  id: string;
+  domains: string[]; // Hostnames; subdomains match too
+  bodySelectors: string[]; // First selector that matches wins; all its matches are read in order
+  excludeSelectors?: string[]; // Removed before reading (figures, tables, boxes)
+  stopHeadings?: string[]; // Headings (substring, case-insensitive) that end the body
+}
+
+export interface MeshHeading {
+  descriptor: string;
+  majorTopic: boolean;
+  qualifiers: { name: string; majorTopic: boolean }[];
+}
+
+// Database a Paper record was retrieved from
+export type PaperOrigin = 'SemanticScholar' | 'PubMed' | 'OpenAlex' | 'EuropePMC' | 'bioRxiv' | 'medRxiv' | 'arXiv';
+
 export interface MatchDetail {
   sentenceId: string;
   sentence: string;
   tag: string; // The S-Tag
   netScore: number; // Weighted Score
   rawScore: number; // Raw Cosine Similarity
+  section?: AbstractSectionCategory; // Abstract section the rule was scored against
+}
+
+// Legal free copy of a paper (Unpaywall best location, or PMC)
+export interface OpenAccessLocation {
+  url: string; // Landing page, or the PDF when that is all there is
+  pdfUrl?: string;
+  license?: string; // e.g. "cc-by"; absent when the host does not state one
+  hostType: 'publisher' | 'repository' | 'pmc';
+  version?: string; // publishedVersion / acceptedVersion / submittedVersion
 }
 
 export interface ProcessingResult {
   paperId: string;
   querySource: string; // The search term that found this paper
+  isPreprint?: boolean; // Carried from Paper for export (Zotero 'preprint' item type)
   vectorScore: number; // Query Similarity (0-1)
   compositeScore: number; // Semantic Accumulation (can be > 1)
   matches: MatchDetail[]; // Top semantic matches
@@ -43,6 +140,8 @@ export interface ProcessingResult {
     probability?: number;
   };
   skippedAi: boolean; // True if Smart Speedup skipped the AI check
+  openAccess?: OpenAccessLocation; // Resolved before scraping; Zotero links it as an attachment
+  scrape?: ScrapeOutcome; // Set for papers that reached AI analysis
   status: 'FILTERED_OUT' | 'PENDING_AI' | 'AI_REJECTED' | 'QUALIFIED' | 'QUALIFIED_SPEEDUP' | 'SKIPPED_FAIL_FAST';
   
   // New Statistics for UI visibility
@@ -60,17 +159,35 @@ export interface SemanticSentence {
   enabled: boolean;
   positive: boolean; // True = Must match (positive weight), False = Penalty
   customTag: string;
+  targetSection?: AbstractSectionCategory; // Score only against this abstract section (falls back to the whole paper when absent)
 }
 
-export type AIProvider = 'gemini' | 'ollama';
+export type AIProvider = 'gemini' | 'ollama' | 'openai';
+
+// How the OpenAI-compatible provider forces JSON: response_format json_schema, or a forced tool call
+export type OpenAIStructuredOutput = 'json_schema' | 'tool_call';
+
+export interface EmbeddingThresholds {
+  minVectorScore: number;
+  minCompositeScore: number;
+}
 
 export interface AppConfig {
-  provider: AIProvider;
+  provider: AIProvider; // Grading / abstract generation
+  embeddingProvider?: AIProvider; // Vector prefiltering; same as provider when absent
   geminiApiKey: string;
   geminiModel: string; // Selected Gemini Model ID
+  geminiEmbeddingModel?: string; // Default text-embedding-004
   ollamaBaseUrl: string;
   ollamaModel: string; // Generation Model (e.g., llama3, meditron)
   ollamaEmbeddingModel: string; // Embedding Model (e.g., nomic-embed-text)
+
+  // OpenAI-compatible server (LM Studio, vLLM, llama.cpp server)
+  openaiBaseUrl?: string; // Including the version prefix, e.g. http://localhost:1234/v1
+  openaiApiKey?: string; // Sent as a Bearer token when set
+  openaiModel?: string; // Chat completions model
+  openaiEmbeddingModel?: string;
+  openaiStructuredOutput?: OpenAIStructuredOutput;
   
   // Zotero Config
   zoteroApiKey?: string;
@@ -79,9 +196,38 @@ export interface AppConfig {
   zoteroIp: string;
   zoteroPort: string;
 
+  // NCBI E-utilities (PubMed)
+  ncbiApiKey?: string; // Raises the shared rate limit from 3 to 10 req/s
+  ncbiEmail?: string; // Contact address NCBI asks tools to send
+
+  // Semantic Scholar
+  semanticScholarApiKey?: string;
+  semanticScholarBulk?: boolean; // Bulk search: token paging past 1,000 hits, but unranked
+
+  // Full text fed to the grader
+  fullTextSections?: FullTextSectionCategory[]; // Sections kept for analysis (whole text when none are detected)
+  fullTextCharBudget?: number; // Max full-text chars added to the analysis prompt
+
+  // Scraper extraction
+  scraperProfiles?: ScraperProfile[]; // Per-domain rules, edited as JSON (defaults when absent)
+  scrapeCacheTtlDays?: number; // Cached extracts older than this are re-scraped; 0 disables the cache
+
+  // Open-access resolver
+  unpaywallEmail?: string; // Unpaywall requires one; falls back to ncbiEmail
+
+  // Scraper CORS proxy
+  corsProxyEnabled?: boolean; // Off = direct fetches only
+  corsProxyTemplate?: string; // "{url}" is replaced with the encoded target URL
+  corsProxyAuthHeader?: string; // Optional "Header-Name: value" sent to the proxy
+
+  // Citation Snowballing
+  snowballEnabled?: boolean; // After each query, expand from its QUALIFIED papers via references / citing papers
+  snowballMaxPerSeed?: number; // Max references (and max citing papers) fetched per seed
+
   // Scoring & Grading
   minVectorScore: number; // Threshold for Query <-> Paper
   minCompositeScore: number; // Threshold for Semantic Sentences <-> Paper
+  embeddingThresholds?: Record<string, EmbeddingThresholds>; // Per embeddingModelKey ("ollama:nomic-embed-text")
   minProbabilityScore: number; // Threshold for AI Discovery Probability (0-10)
   gradingTopics: string[]; // List of required topics for AI Grading
 
@@ -98,6 +244,19 @@ export interface CycleStats {
   qualified: number;
   speedupActive: boolean;
   energySaved: number; // Abstract units representing saved Generation calls
+  // Full-text coverage of the AI-analyzed papers
+  scrapeAttempted: number;
+  scrapeSucceeded: number;
+  scrapeViaProxy: number;
+  scrapeStrategies: Record<string, number>;
+  scrapeFailures: Partial<Record<ScrapeFailure, number>>;
+}
+
+// A computed embedding, tagged with the model that produced it (embeddingModelKey)
+export interface EmbeddingVector {
+  values: number[];
+  model: string;
+  dim: number;
 }
 
 export interface AIService {
@@ -116,6 +275,33 @@ export interface AIService {
   }>;
 }
 
+// One page of search hits from a literature database.
+export interface SourceSearchPage {
+  ids: string[]; // Source-native record IDs for this page
+  total: number; // Total hits the database reports for the query
+  papers?: Paper[]; // Pre-hydrated records (sources whose search already returns metadata)
+}
+
+// Pluggable literature database used by the cycle loop.
+export interface PaperSource {
+  id: string; // Registry key (e.g. 'PUBMED')
+  label: string; // Display name for the navbar / cycle header
+  search(query: string, offset: number, limit: number, filters?: QueryFilters, signal?: AbortSignal): Promise<SourceSearchPage>;
+  fetchDetails(ids: string[], signal?: AbortSignal): Promise<Paper[]>;
+  unsupportedFilters?: (keyof QueryFilters)[]; // Neither the API nor the returned metadata can apply these
+  approximateAddedSince?: boolean; // No index date: watch mode's addedSince filters on publication date
+}
+
+// Per-query pre-filters, translated into each source's native syntax
+export interface QueryFilters {
+  yearFrom?: number;
+  yearTo?: number;
+  language?: string; // MEDLINE language code (eng, fre, ger, ...)
+  includeTypes?: string[]; // Publication types in PubMed vocabulary (e.g. "Review")
+  excludeTypes?: string[];
+  addedSince?: string; // "YYYY-MM-DD"; set at run time by watch mode, never stored on the item
+}
+
 export type QueueStatus = 'READY' | 'RUNNING' | 'COMPLETED' | 'NEEDS_ADJUSTMENT' | 'CANCELLED';
 
 export interface QueueItem {
@@ -132,6 +318,10 @@ export interface QueueItem {
   probMin?: number;
   startRec?: number;
   stopRec?: number;
+  sources?: string[]; // Source registry IDs to fan out to (empty = navbar selection)
+  filters?: QueryFilters;
+  watch?: boolean; // Only fetch records added since this query's last completed run
+  seedPmids?: string[]; // Similar-articles mode: expand these PMIDs via PubMed elink instead of searching (query is still used for scoring)
   selected?: boolean; // UI Selection state
 }
 
@@ -140,6 +330,8 @@ export interface CycleHeaderData {
   query: string;
   timestamp: number;
   totalRecords?: number; // Added totalRecords
+  kind?: 'query' | 'snowball'; // Snowball = citation-graph expansion of a finished query
+  seedCount?: number; // Snowball only: QUALIFIED papers the expansion started from
   configSnapshot: {
     vectorMin: number;
     compMin: number;
@@ -149,7 +341,10 @@ export interface CycleHeaderData {
     startRec: number;
     stopRec: number;
     source: string;
-    model: string;
+    filters?: string; // Human-readable QueryFilters summary
+    unappliedFilters?: string; // Filters a source ignored, e.g. "Language (Semantic Scholar)"
+    model: string; // Grading model
+    embeddingModel?: string; // embeddingModelKey, e.g. "ollama:nomic-embed-text"
     
     speedUp: boolean;
     failFast: boolean;
@@ -174,8 +369,11 @@ export interface CycleCompleteData {
   query: string;
   totalFound: number;
   qualifiedCount: number;
-  status: 'COMPLETED' | 'FAIL_FAST' | 'HARVEST_DONE';
+  status: 'COMPLETED' | 'FAIL_FAST' | 'HARVEST_DONE' | 'RATE_LIMITED';
   failFastReason?: string;
+  rateLimitedSources?: string[]; // Sources that stopped on persistent 429s (results incomplete, not exhausted)
+  failedSources?: string[]; // Sources that stopped on another error while the rest carried on
+  watchWarning?: string; // Watch mark not stored (e.g. storage quota) or its date kept back by an incomplete run
   
   // Context for resumption
   continuationContext?: {
@@ -205,7 +403,7 @@ export type FeedItem =
 export interface NetworkLog {
   id: string;
   timestamp: number;
-  source: 'Ollama' | 'Zotero' | 'Gemini';
+  source: 'Ollama' | 'Zotero' | 'Gemini' | 'NCBI' | 'Proxy' | 'OpenAI';
   type: 'req' | 'res' | 'err';
   method: string;
   url: string;